@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { InfiniteEditPanel } from '../panels/InfiniteEditPanel';
+import { InfiniteFileSystemProvider } from '../providers/FileSystemProvider';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { CanvasRegistry, type CanvasInfo } from '../services/CanvasRegistry';
+
+/**
+ * Commands for managing named canvases.  Each takes an optional canvas id
+ * (passed by the sidebar); when omitted, the user picks one.
+ */
+
+type CanvasQuickPickItem = vscode.QuickPickItem & { canvas?: CanvasInfo };
+
+async function pickCanvas(canvasRegistry: CanvasRegistry, placeHolder: string, allowNew: boolean = false): Promise<CanvasInfo | 'new' | undefined> {
+    const [canvases, active] = await Promise.all([canvasRegistry.list(), canvasRegistry.getActive()]);
+    const items: CanvasQuickPickItem[] = canvases.map(canvas => ({
+        label: canvas.name,
+        description: canvas.id === active.id ? 'current' : undefined,
+        canvas
+    }));
+    if (allowNew) {
+        items.push({ label: '$(add) New Canvas…' });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder });
+    if (!selected) {
+        return undefined;
+    }
+    return selected.canvas ?? 'new';
+}
+
+async function promptCanvasName(value?: string): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Canvas name',
+        placeHolder: 'e.g. auth flow',
+        value,
+        validateInput: text => text.trim().length === 0 ? 'Name cannot be empty' : undefined
+    });
+    return name?.trim();
+}
+
+async function resolveCanvas(canvasRegistry: CanvasRegistry, canvasId: string | undefined, placeHolder: string): Promise<CanvasInfo | undefined> {
+    if (canvasId) {
+        return canvasRegistry.get(canvasId);
+    }
+    const picked = await pickCanvas(canvasRegistry, placeHolder);
+    return picked === 'new' ? undefined : picked;
+}
+
+export const switchCanvasCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) => {
+    const showCanvas = async (canvas: CanvasInfo) => {
+        await canvasRegistry.setActive(canvas.id);
+        if (InfiniteEditPanel.namedCanvasPanel) {
+            await InfiniteEditPanel.namedCanvasPanel.reloadCanvas();
+        } else {
+            InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, canvasRegistry, context);
+        }
+    };
+
+    return async (canvasId?: string) => {
+        let canvas: CanvasInfo | undefined;
+        if (canvasId) {
+            canvas = await canvasRegistry.get(canvasId);
+        } else {
+            const picked = await pickCanvas(canvasRegistry, 'Switch to canvas', true);
+            if (picked === 'new') {
+                const name = await promptCanvasName();
+                canvas = name ? await canvasRegistry.create(name) : undefined;
+            } else {
+                canvas = picked;
+            }
+        }
+        if (canvas) {
+            await showCanvas(canvas);
+        }
+    };
+};
+
+export const newCanvasCommand = (canvasRegistry: CanvasRegistry) => {
+    return async () => {
+        const name = await promptCanvasName();
+        if (name) {
+            const canvas = await canvasRegistry.create(name);
+            await vscode.commands.executeCommand('infinite-edit.switchCanvas', canvas.id);
+        }
+    };
+};
+
+export const renameCanvasCommand = (canvasRegistry: CanvasRegistry) => {
+    return async (canvasId?: string) => {
+        const canvas = await resolveCanvas(canvasRegistry, canvasId, 'Canvas to rename');
+        if (!canvas) {
+            return;
+        }
+        const name = await promptCanvasName(canvas.name);
+        if (name && name !== canvas.name) {
+            await canvasRegistry.rename(canvas.id, name);
+        }
+    };
+};
+
+export const deleteCanvasCommand = (canvasRegistry: CanvasRegistry) => {
+    return async (canvasId?: string) => {
+        const canvases = await canvasRegistry.list();
+        if (canvases.length <= 1) {
+            vscode.window.showInformationMessage('Infinite Edit: The only canvas cannot be deleted.');
+            return;
+        }
+        const canvas = await resolveCanvas(canvasRegistry, canvasId, 'Canvas to delete');
+        if (!canvas) {
+            return;
+        }
+        const confirmed = await vscode.window.showWarningMessage(
+            `Delete canvas '${canvas.name}'? Its layout, notes and connections will be lost.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirmed !== 'Delete') {
+            return;
+        }
+
+        // Move off the canvas before deleting it, so the panel doesn't write it back
+        const active = await canvasRegistry.getActive();
+        if (active.id === canvas.id) {
+            const next = canvases.find(c => c.id !== canvas.id)!;
+            await canvasRegistry.setActive(next.id);
+            await InfiniteEditPanel.namedCanvasPanel?.reloadCanvas();
+        }
+        await canvasRegistry.delete(canvas.id);
+    };
+};
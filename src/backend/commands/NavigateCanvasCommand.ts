@@ -0,0 +1,13 @@
+import * as vscode from 'vscode';
+import { InfiniteEditPanel } from '../panels/InfiniteEditPanel';
+import { type CanvasNavigationAction } from '../../shared/types/messages';
+
+export const navigateCanvasCommand = (action: CanvasNavigationAction) => {
+    return () => {
+        if (!InfiniteEditPanel.currentPanel) {
+            vscode.window.showInformationMessage('Infinite Edit: Open the canvas first.');
+            return;
+        }
+        InfiniteEditPanel.currentPanel.navigateCanvas(action);
+    };
+};
@@ -2,9 +2,10 @@ import { InfiniteEditPanel } from "../panels/InfiniteEditPanel";
 import * as vscode from 'vscode';
 import { InfiniteFileSystemProvider } from "../providers/FileSystemProvider";
 import { ConfigurationManager } from "../services/ConfigurationManager";
+import { CanvasRegistry } from "../services/CanvasRegistry";
 
-export const openCanvasCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, context: vscode.ExtensionContext) => {
+export const openCanvasCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) => {
     return async () => {
-        InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, context);
+        InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, canvasRegistry, context);
     };
 };
@@ -2,11 +2,13 @@ import * as vscode from 'vscode';
 import { InfiniteEditPanel } from "../panels/InfiniteEditPanel";
 import { InfiniteFileSystemProvider } from '../providers/FileSystemProvider';
 import { ConfigurationManager } from '../services/ConfigurationManager';
+import { CanvasRegistry } from '../services/CanvasRegistry';
+import { getMediaKindForFile } from '../../shared/MediaConfig';
 
-export const openFileCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, context: vscode.ExtensionContext) => {
+export const openFileCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) => {
     return async () => {
         if (!InfiniteEditPanel.currentPanel) {
-            InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, context);
+            InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, canvasRegistry, context);
         }
 
         const editor = vscode.window.activeTextEditor;
@@ -19,7 +21,9 @@ export const openFileCommand = (extensionUri: vscode.Uri, fileSystemProvider: In
                     const items = files.map(file => ({ label: vscode.workspace.asRelativePath(file), uri: file }));
                     const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select a file to open in Infinite Edit' });
 
-                    if (selected) {
+                    if (selected && getMediaKindForFile(selected.uri.fsPath)) {
+                        InfiniteEditPanel.currentPanel?.openMedia(selected.uri);
+                    } else if (selected) {
                         const document = await vscode.workspace.openTextDocument(selected.uri);
                         InfiniteEditPanel.currentPanel?.openFile(document);
                     }
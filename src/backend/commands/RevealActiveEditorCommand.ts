@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+import { InfiniteEditPanel } from '../panels/InfiniteEditPanel';
+import { InfiniteFileSystemProvider } from '../providers/FileSystemProvider';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { CanvasRegistry } from '../services/CanvasRegistry';
+
+export const revealActiveEditorCommand = (extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) => {
+    return () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('Infinite Edit: No active editor found.');
+            return;
+        }
+
+        if (!InfiniteEditPanel.currentPanel) {
+            InfiniteEditPanel.createOrShow(extensionUri, fileSystemProvider, configManager, canvasRegistry, context);
+        }
+        InfiniteEditPanel.currentPanel?.revealFile(editor.document, editor.selection);
+    };
+};
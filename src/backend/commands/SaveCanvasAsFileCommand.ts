@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { InfiniteEditPanel } from '../panels/InfiniteEditPanel';
+import { CanvasRegistry } from '../services/CanvasRegistry';
+import { CANVAS_FILE_EXTENSION, getCanvasFileRoot } from '../services/CanvasFileStore';
+import { serializeCanvasFile } from '../services/CanvasFileFormat';
+import { CanvasFileEditorProvider } from '../providers/CanvasFileEditorProvider';
+
+/**
+ * Writes the current canvas to a shareable `*.infinite.json` file and opens it.
+ */
+export const saveCanvasAsFileCommand = (canvasRegistry: CanvasRegistry) => {
+    return async () => {
+        const panel = InfiniteEditPanel.currentPanel;
+        if (!panel) {
+            vscode.window.showInformationMessage('Infinite Edit: Open the canvas first.');
+            return;
+        }
+
+        const name = panel === InfiniteEditPanel.namedCanvasPanel ? (await canvasRegistry.getActive()).name : 'canvas';
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `${name.replace(/[^\w.-]+/g, '-').toLowerCase()}${CANVAS_FILE_EXTENSION}`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: { 'Infinite Edit Canvas': ['infinite.json'] },
+            saveLabel: 'Save Canvas'
+        });
+        if (!target) {
+            return;
+        }
+
+        const state = await panel.getCanvasState();
+        const text = serializeCanvasFile(state, getCanvasFileRoot(target));
+        await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+        await vscode.commands.executeCommand('vscode.openWith', target, CanvasFileEditorProvider.viewType);
+    };
+};
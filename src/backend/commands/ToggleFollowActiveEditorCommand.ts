@@ -0,0 +1,10 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+
+export const toggleFollowActiveEditorCommand = (configManager: ConfigurationManager) => {
+    return async () => {
+        const enabled = !configManager.get('followActiveEditor');
+        await configManager.set('followActiveEditor', enabled);
+        vscode.window.showInformationMessage(`Infinite Edit: Follow Active Editor ${enabled ? 'on' : 'off'}.`);
+    };
+};
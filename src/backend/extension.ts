@@ -3,11 +3,18 @@ import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { InfiniteEditPanel } from './panels/InfiniteEditPanel';
 import { SidebarProvider } from './providers/SidebarProvider';
+import { CanvasFileEditorProvider } from './providers/CanvasFileEditorProvider';
 import { openCanvasCommand } from './commands/OpenCanvasCommand';
 import { openFileCommand } from './commands/OpenFileCommand';
+import { navigateCanvasCommand } from './commands/NavigateCanvasCommand';
+import { revealActiveEditorCommand } from './commands/RevealActiveEditorCommand';
+import { toggleFollowActiveEditorCommand } from './commands/ToggleFollowActiveEditorCommand';
+import { saveCanvasAsFileCommand } from './commands/SaveCanvasAsFileCommand';
+import { switchCanvasCommand, newCanvasCommand, renameCanvasCommand, deleteCanvasCommand } from './commands/CanvasCommands';
 import { InfiniteFileSystemProvider } from './providers/FileSystemProvider';
 import { LSPProvider } from './providers/LSPProvider';
 import { ConfigurationManager } from './services/ConfigurationManager';
+import { CanvasRegistry } from './services/CanvasRegistry';
 
 // Enable Hot Reload in development mode
 if (process.env.NODE_ENV === "development") {
@@ -42,6 +49,10 @@ export function activate(context: vscode.ExtensionContext) {
     const configManager = new ConfigurationManager();
     context.subscriptions.push(configManager);
 
+    // Named canvases of this workspace
+    const canvasRegistry = new CanvasRegistry(context.storageUri);
+    context.subscriptions.push(canvasRegistry);
+
     // Register the infinite file system provider
     const fileSystemProvider = new InfiniteFileSystemProvider();
     context.subscriptions.push(
@@ -49,15 +60,36 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Register commands for VS Code's command palette
-    const openCanvasDisposable = vscode.commands.registerCommand('infinite-edit.openCanvas', openCanvasCommand(context.extensionUri, fileSystemProvider, configManager, context));
-    const openFileDisposable = vscode.commands.registerCommand('infinite-edit.openFile', openFileCommand(context.extensionUri, fileSystemProvider, configManager, context));
+    const openCanvasDisposable = vscode.commands.registerCommand('infinite-edit.openCanvas', openCanvasCommand(context.extensionUri, fileSystemProvider, configManager, canvasRegistry, context));
+    const openFileDisposable = vscode.commands.registerCommand('infinite-edit.openFile', openFileCommand(context.extensionUri, fileSystemProvider, configManager, canvasRegistry, context));
     context.subscriptions.push(openCanvasDisposable, openFileDisposable);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('infinite-edit.zoomToFit', navigateCanvasCommand('zoomToFit')),
+        vscode.commands.registerCommand('infinite-edit.zoomToSelection', navigateCanvasCommand('zoomToSelection')),
+        vscode.commands.registerCommand('infinite-edit.focusNode', navigateCanvasCommand('focusNode')),
+        vscode.commands.registerCommand('infinite-edit.revealActiveEditor', revealActiveEditorCommand(context.extensionUri, fileSystemProvider, configManager, canvasRegistry, context)),
+        vscode.commands.registerCommand('infinite-edit.toggleFollowActiveEditor', toggleFollowActiveEditorCommand(configManager)),
+        vscode.commands.registerCommand('infinite-edit.switchCanvas', switchCanvasCommand(context.extensionUri, fileSystemProvider, configManager, canvasRegistry, context)),
+        vscode.commands.registerCommand('infinite-edit.newCanvas', newCanvasCommand(canvasRegistry)),
+        vscode.commands.registerCommand('infinite-edit.renameCanvas', renameCanvasCommand(canvasRegistry)),
+        vscode.commands.registerCommand('infinite-edit.deleteCanvas', deleteCanvasCommand(canvasRegistry)),
+        vscode.commands.registerCommand('infinite-edit.saveCanvasAsFile', saveCanvasAsFileCommand(canvasRegistry))
+    );
+
+    // Open shared *.infinite.json canvas files in the canvas
+    context.subscriptions.push(
+        vscode.window.registerCustomEditorProvider(
+            CanvasFileEditorProvider.viewType,
+            new CanvasFileEditorProvider(context.extensionUri, fileSystemProvider, configManager, canvasRegistry, context),
+            { webviewOptions: { retainContextWhenHidden: true } }
+        )
+    );
 
     // Register LSP bridge providers
     LSPProvider.register(context);
 
     // Register the sidebar provider
-    const sidebarProvider = new SidebarProvider(context.extensionUri);
+    const sidebarProvider = new SidebarProvider(context.extensionUri, canvasRegistry);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(SidebarProvider.viewType, sidebarProvider)
     );
@@ -1,12 +1,30 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { MessageBus } from '../services/MessageBus';
 import { MONACO_WORKER_FILES } from '../../shared/MonacoConfig';
+import { getMediaKindForFile } from '../../shared/MediaConfig';
+import { type CanvasNavigationAction, type FileRename, type HierarchyItem, type MissingFileInfo, type NavigationOrigin, type TextDelta } from '../../shared/types/messages';
+import { composeDeltas } from '../../shared/TextDeltas';
+import { remapSemanticTokens } from '../../shared/SemanticTokens';
 import { InfiniteFileSystemProvider } from '../providers/FileSystemProvider';
 import { ConfigurationManager } from '../services/ConfigurationManager';
-import { AppPersistenceService } from '../services/AppPersistenceService';
+import { AppPersistenceService, type CanvasStateStore } from '../services/AppPersistenceService';
+import { CanvasFileStore } from '../services/CanvasFileStore';
+import { CanvasRegistry } from '../services/CanvasRegistry';
+import { type PersistedAppState, DEFAULT_APP_STATE } from '../../shared/types/appState';
+
+/** How many code actions `vscode.executeCodeActionProvider` resolves the edits of. */
+const CODE_ACTION_RESOLVE_LIMIT = 20;
+
+function isCommand(action: vscode.CodeAction | vscode.Command): action is vscode.Command {
+    return typeof action.command === 'string';
+}
 
 export class InfiniteEditPanel {
+    /** The panel commands act on: the canvas the user looked at last. */
     public static currentPanel: InfiniteEditPanel | undefined;
+    /** The panel showing the active named canvas (as opposed to a `*.infinite.json` file). */
+    public static namedCanvasPanel: InfiniteEditPanel | undefined;
     private readonly _extensionUri: vscode.Uri;
     private readonly _panel: vscode.WebviewPanel;
     private readonly _fileSystemProvider: InfiniteFileSystemProvider;
@@ -14,16 +32,46 @@ export class InfiniteEditPanel {
     private _disposables: vscode.Disposable[] = [];
     private _isReady: boolean = false;
     private _pendingMessages: any[] = [];
-    private readonly _persistenceService: AppPersistenceService;
+    private _mirrorSelectionTimeout: ReturnType<typeof setTimeout> | undefined;
+    private readonly _storageUri: vscode.Uri | undefined;
+    private readonly _workspaceState: vscode.Memento;
+    private readonly _canvasRegistry: CanvasRegistry;
+    /** Set when the panel edits a shared `*.infinite.json` file instead of a named canvas. */
+    private readonly _canvasFile: vscode.TextDocument | undefined;
+    /** Where the canvas currently shown is stored; replaced when switching canvases. */
+    private _store: CanvasStateStore | null = null;
+    /** The flush in progress, shared by every caller until the webview answers. */
+    private _pendingFlush: { promise: Promise<void>; resolve: () => void } | undefined;
+    /** Canvas edits being applied, by file path, so their change events are marked as such. */
+    private _canvasEdits: Map<string, TextDelta> = new Map();
+    /** Files edited on the canvas, to offer saving them when the panel closes. */
+    private _editedFiles: Set<string> = new Set();
+    /**
+     * Code actions last offered to the webview, by batch id.  Their edits and
+     * command arguments can't be serialized, so the webview refers to them by
+     * batch id and index, and releases a batch when Monaco is done with it.
+     */
+    private _codeActions: Map<number, (vscode.CodeAction | vscode.Command)[]> = new Map();
+    private _nextCodeActionBatch: number = 0;
+    /**
+     * Call and type hierarchy items sent to the webview, by id.  Providers
+     * need the original items to resolve calls and types, so they are kept
+     * until the webview releases them or reloads.
+     */
+    private _hierarchyItems: Map<number, vscode.CallHierarchyItem | vscode.TypeHierarchyItem> = new Map();
+    private _nextHierarchyItemId: number = 0;
 
     private readonly _messageBus: MessageBus = new MessageBus();
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, context: vscode.ExtensionContext) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext, canvasFile?: vscode.TextDocument) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._fileSystemProvider = fileSystemProvider;
         this._configManager = configManager;
-        this._persistenceService = new AppPersistenceService(context.storageUri);
+        this._storageUri = context.storageUri;
+        this._workspaceState = context.workspaceState;
+        this._canvasRegistry = canvasRegistry;
+        this._canvasFile = canvasFile;
         this._messageBus.setWebview(this._panel.webview);
 
         // Set the webview's initial html content
@@ -45,6 +93,32 @@ export class InfiniteEditPanel {
         });
         this._disposables.push(configChangeDisposable);
 
+        // Let MediaNodes load files from workspace folders added later
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this._panel.webview.options = {
+                ...this._panel.webview.options,
+                localResourceRoots: InfiniteEditPanel._getLocalResourceRoots(this._extensionUri)
+            };
+        }, null, this._disposables);
+
+        if (canvasFile) {
+            // Reload when the file changes underneath us (git checkout, edits in a text editor)
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document === canvasFile && e.contentChanges.length > 0 && (this._store as CanvasFileStore | null)?.isExternalChange()) {
+                    this.reloadWebview();
+                }
+            }, null, this._disposables);
+        } else {
+            // Keep the tab title in sync with the active canvas name
+            this._canvasRegistry.onDidChange(() => this._updateTitle(), null, this._disposables);
+        }
+
+        this._panel.onDidChangeViewState(e => {
+            if (e.webviewPanel.active) {
+                InfiniteEditPanel.currentPanel = this;
+            }
+        }, null, this._disposables);
+
         // Handle messages from the webview
         this._panel.webview.onDidReceiveMessage(
             message => this._messageBus.handleMessage(message),
@@ -55,7 +129,27 @@ export class InfiniteEditPanel {
 
     private registerMessageHandlers() {
         this._messageBus.register('alert', (message) => {
-            vscode.window.showErrorMessage(message.text);
+            vscode.window.showErrorMessage(message.message);
+        });
+
+        // The webview cannot show native prompts, so text input goes through VS Code.
+        this._messageBus.register('showInputBox', async (message) => {
+            const value = await vscode.window.showInputBox({
+                prompt: message.prompt,
+                value: message.value,
+                placeHolder: message.placeHolder
+            });
+            return value ?? null;
+        });
+
+        // Lets the user point a "missing file" placeholder at the file's new location
+        this._messageBus.register('pickFile', async (message) => {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: message.defaultPath ? vscode.Uri.file(message.defaultPath) : undefined,
+                openLabel: message.openLabel
+            });
+            return uris?.[0]?.fsPath ?? null;
         });
 
         this._messageBus.register('ready', async () => {
@@ -67,9 +161,18 @@ export class InfiniteEditPanel {
                 config: this._configManager.getConfig()
             });
 
-            // Restore persisted canvas session (open editors at saved positions).
-            const persistedState = await this._persistenceService.load();
-            if (persistedState && persistedState.canvas.nodes.length > 0) {
+            // Restore the canvas session (open editors at saved positions).
+            if (this._canvasFile) {
+                this._store = new CanvasFileStore(this._canvasFile, this._workspaceState);
+            } else {
+                const canvas = await this._canvasRegistry.getActive();
+                this._store = new AppPersistenceService(this._storageUri, canvas.fileName);
+                this._panel.title = `Infinite Edit — ${canvas.name}`;
+            }
+            const persistedState = await this._store.load();
+            if (persistedState) {
+                // Nodes whose file is gone are restored as placeholders
+                const missingFiles: MissingFileInfo[] = [];
                 for (const node of persistedState.canvas.nodes) {
                     try {
                         const fileUri = vscode.Uri.file(node.filePath);
@@ -81,6 +184,7 @@ export class InfiniteEditPanel {
                             file: node.filePath,
                             uri: infiniteUri.toString(),
                             content: document.getText(),
+                            document: { version: document.version, isDirty: document.isDirty },
                             diagnostics: diagnostics.map(d => ({
                                 message: d.message,
                                 severity: this._mapSeverity(d.severity),
@@ -92,10 +196,56 @@ export class InfiniteEditPanel {
                             layout: { x: node.x, y: node.y, width: node.width, height: node.height, zIndex: node.zIndex }
                         });
                     } catch (e) {
-                        console.warn(`InfiniteEditPanel: Failed to restore node '${node.filePath}':`, e);
+                        if (await this._fileExists(node.filePath)) {
+                            console.warn(`InfiniteEditPanel: Failed to restore node '${node.filePath}':`, e);
+                        } else {
+                            missingFiles.push({
+                                nodeType: 'editor',
+                                id: node.filePath,
+                                filePath: node.filePath,
+                                uri: node.uri,
+                                layout: { x: node.x, y: node.y, width: node.width, height: node.height, zIndex: node.zIndex }
+                            });
+                        }
+                    }
+                }
+                const notes = persistedState.notes.notes;
+                if (notes.length > 0) {
+                    this._panel.webview.postMessage({
+                        command: 'restoreNotes',
+                        notes
+                    });
+                }
+                const mediaItems = [];
+                for (const item of persistedState.media.items) {
+                    if (await this._fileExists(item.filePath)) {
+                        mediaItems.push(item);
+                    } else {
+                        const { id, filePath, ...layout } = item;
+                        missingFiles.push({ nodeType: 'media', id, filePath, layout });
                     }
                 }
-                // Restore the viewport after all files are queued.
+                if (mediaItems.length > 0) {
+                    this._panel.webview.postMessage({
+                        command: 'restoreMedia',
+                        items: mediaItems
+                    });
+                }
+                if (missingFiles.length > 0) {
+                    this._panel.webview.postMessage({
+                        command: 'restoreMissingFiles',
+                        files: missingFiles
+                    });
+                }
+                // Connections go last so the nodes they link already exist.
+                const connections = persistedState.connections.connections;
+                if (connections.length > 0) {
+                    this._panel.webview.postMessage({
+                        command: 'restoreConnections',
+                        connections
+                    });
+                }
+                // Restore the viewport after all nodes are queued.
                 this._panel.webview.postMessage({
                     command: 'restoreViewport',
                     viewport: persistedState.canvas.viewport
@@ -107,13 +257,16 @@ export class InfiniteEditPanel {
             this._pendingMessages = [];
         });
 
+        // Save through the TextDocument, which already has the canvas edits, so
+        // encoding, EOL and save participants (format on save, ...) apply as in
+        // the native editor.  Failures are reported to the editor node.
         this._messageBus.register('saveFile', async (message) => {
-            try {
-                const uri = vscode.Uri.file(message.file);
-                await vscode.workspace.fs.writeFile(uri, Buffer.from(message.content));
-                vscode.window.showInformationMessage(`Saved ${message.file}`);
-            } catch (e) {
-                vscode.window.showErrorMessage(`Failed to save ${message.file}: ${e}`);
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(message.file));
+            if (!document.isDirty) {
+                return;
+            }
+            if (!await document.save()) {
+                throw new Error(`${path.basename(document.fileName)} could not be saved`);
             }
         });
 
@@ -143,6 +296,10 @@ export class InfiniteEditPanel {
         this._messageBus.register('requestOpenFile', async (message) => {
             try {
                 const uri = vscode.Uri.file(message.path);
+                if (getMediaKindForFile(uri.fsPath)) {
+                    this.openMedia(uri);
+                    return;
+                }
                 const document = await vscode.workspace.openTextDocument(uri);
 
                 let selection: vscode.Range | undefined;
@@ -155,12 +312,24 @@ export class InfiniteEditPanel {
                     );
                 }
 
-                this.openFile(document, selection);
+                this.openFile(document, selection, message.origin);
             } catch (e) {
                 vscode.window.showErrorMessage(`Failed to open file: ${message.path}`);
             }
         });
 
+        // Reopens a closed editor on canvas undo: the document's current text
+        // (including unsaved changes) and diagnostics, as sent with `openFile`.
+        this._messageBus.register('getEditorContent', async (message) => {
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(message.file));
+                return this._createOpenFileMessage(document);
+            } catch (e) {
+                console.warn(`InfiniteEditPanel: Failed to open '${message.file}':`, e);
+                return null;
+            }
+        });
+
         this._messageBus.register('getFileContent', async (message) => {
             try {
                 // Handle both absolute paths and URI strings
@@ -176,43 +345,72 @@ export class InfiniteEditPanel {
             }
         });
 
-        // Handle text changes from the webview
-        this._messageBus.register('updateFile', async (message) => {
-            const { file, content } = message;
+        // Resolve a webview-safe URI for an image/SVG/PDF shown in a MediaNode.
+        // The file must live under one of the panel's localResourceRoots (a
+        // workspace folder); the webview can't load anything else.
+        this._messageBus.register('getMediaResource', async (message) => {
+            const uri = vscode.Uri.file(message.file);
+            if (!vscode.workspace.getWorkspaceFolder(uri)) {
+                console.warn(`InfiniteEditPanel: Media file outside the workspace folders '${message.file}'`);
+                return null;
+            }
+            try {
+                await vscode.workspace.fs.stat(uri);
+            } catch (e) {
+                console.warn(`InfiniteEditPanel: Media file not found '${message.file}':`, e);
+                return null;
+            }
+            return this._panel.webview.asWebviewUri(uri).toString();
+        });
+
+        // Apply edits made in a canvas editor.  They were made against document
+        // `version`; if the document has changed since, they are refused, and the
+        // webview rebases them over the changes it receives and sends them again.
+        this._messageBus.register('applyEdits', async (message) => {
+            const { file, version, deltas } = message as { file: string; version: number; deltas: TextDelta[] };
             // Use the REAL file URI to apply edits, so it shows up in the standard editor
             // and doesn't create a duplicate tab for the 'infinite' scheme.
             const uri = vscode.Uri.file(file);
             try {
                 const document = await vscode.workspace.openTextDocument(uri);
+                if (document.version !== version) {
+                    return { applied: false, version: document.version };
+                }
+                const delta = composeDeltas(document.getText(), deltas);
+                if (!delta) {
+                    return { applied: true, version };
+                }
                 const edit = new vscode.WorkspaceEdit();
-                const fullRange = new vscode.Range(
-                    document.positionAt(0),
-                    document.positionAt(document.getText().length)
-                );
-                edit.replace(uri, fullRange, content);
-                await vscode.workspace.applyEdit(edit);
+                edit.replace(uri, new vscode.Range(document.positionAt(delta.offset), document.positionAt(delta.offset + delta.length)), delta.text);
+                this._canvasEdits.set(uri.fsPath, delta);
+                this._editedFiles.add(uri.fsPath);
+                const applied = await vscode.workspace.applyEdit(edit);
+                return { applied, version: document.version };
             } catch (e) {
-                console.error('Failed to update file:', e);
+                console.error('Failed to apply edits:', e);
+                return { applied: false, version };
+            } finally {
+                this._canvasEdits.delete(uri.fsPath);
             }
         });
 
-        this._messageBus.register('provideDefinition', async (message) => {
-            const { file, position } = message;
-            const uri = vscode.Uri.file(file);
-            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
-            try {
-                const result = await vscode.commands.executeCommand<any>(
-                    'vscode.executeDefinitionProvider',
-                    uri,
-                    pos
-                );
-                return result;
-            } catch (e) {
-                console.error('Failed to provide definition:', e);
-                return null;
-            }
+        // Asked before closing an editor node with unsaved changes
+        this._messageBus.register('confirmUnsavedChanges', async (message) => {
+            return this._confirmUnsavedChanges(message.files, "Your changes will be lost if you don't save them.");
         });
 
+        this._messageBus.register('revertFiles', async (message) => {
+            const documents = await Promise.all((message.files as string[]).map(file => vscode.workspace.openTextDocument(vscode.Uri.file(file))));
+            await this._revertDocuments(documents);
+            this._panel.reveal();
+        });
+
+        // Go to Definition, Implementation, Type Definition and Declaration
+        this._messageBus.register('provideDefinition', (message) => this._provideLocations('vscode.executeDefinitionProvider', message));
+        this._messageBus.register('provideImplementation', (message) => this._provideLocations('vscode.executeImplementationProvider', message));
+        this._messageBus.register('provideTypeDefinition', (message) => this._provideLocations('vscode.executeTypeDefinitionProvider', message));
+        this._messageBus.register('provideDeclaration', (message) => this._provideLocations('vscode.executeDeclarationProvider', message));
+
         this._messageBus.register('provideHover', async (message) => {
             const { file, position } = message;
             const uri = vscode.Uri.file(file);
@@ -319,6 +517,340 @@ export class InfiniteEditPanel {
             }
         });
 
+        this._messageBus.register('provideDocumentFormattingEdits', async (message) => {
+            const { file, options } = message;
+            const uri = vscode.Uri.file(file);
+            try {
+                const result = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+                    'vscode.executeFormatDocumentProvider',
+                    uri,
+                    options
+                );
+                return result;
+            } catch (e) {
+                console.error('Failed to format document:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideDocumentRangeFormattingEdits', async (message) => {
+            const { file, range, options } = message;
+            const uri = vscode.Uri.file(file);
+            const vsRange = new vscode.Range(
+                new vscode.Position(range.startLineNumber - 1, range.startColumn - 1),
+                new vscode.Position(range.endLineNumber - 1, range.endColumn - 1)
+            );
+            try {
+                const result = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+                    'vscode.executeFormatRangeProvider',
+                    uri,
+                    vsRange,
+                    options
+                );
+                return result;
+            } catch (e) {
+                console.error('Failed to format range:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideOnTypeFormattingEdits', async (message) => {
+            const { file, position, ch, options } = message;
+            const uri = vscode.Uri.file(file);
+            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+            try {
+                // Canvas editors always ask; honour the user's setting for the file here
+                const document = await vscode.workspace.openTextDocument(uri);
+                if (!vscode.workspace.getConfiguration('editor', document).get<boolean>('formatOnType', false)) {
+                    return null;
+                }
+                const result = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+                    'vscode.executeFormatOnTypeProvider',
+                    uri,
+                    pos,
+                    ch,
+                    options
+                );
+                return result;
+            } catch (e) {
+                console.error('Failed to format on type:', e);
+                return null;
+            }
+        });
+
+        // Semantic tokens are re-encoded against the shared legend (see SemanticTokens)
+        this._messageBus.register('provideDocumentSemanticTokens', async (message) => {
+            const { file } = message;
+            const uri = vscode.Uri.file(file);
+            try {
+                const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+                    'vscode.provideDocumentSemanticTokensLegend',
+                    uri
+                );
+                const tokens = legend && await vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+                    'vscode.provideDocumentSemanticTokens',
+                    uri
+                );
+                if (!legend || !tokens) {
+                    return null;
+                }
+                return { data: remapSemanticTokens(tokens.data, legend) };
+            } catch (e) {
+                console.error('Failed to provide semantic tokens:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideDocumentRangeSemanticTokens', async (message) => {
+            const { file, range } = message;
+            const uri = vscode.Uri.file(file);
+            const vsRange = new vscode.Range(
+                new vscode.Position(range.startLineNumber - 1, range.startColumn - 1),
+                new vscode.Position(range.endLineNumber - 1, range.endColumn - 1)
+            );
+            try {
+                const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+                    'vscode.provideDocumentRangeSemanticTokensLegend',
+                    uri
+                );
+                const tokens = legend && await vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+                    'vscode.provideDocumentRangeSemanticTokens',
+                    uri,
+                    vsRange
+                );
+                if (!legend || !tokens) {
+                    return null;
+                }
+                return { data: remapSemanticTokens(tokens.data, legend) };
+            } catch (e) {
+                console.error('Failed to provide range semantic tokens:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('prepareRename', async (message) => {
+            const { file, position } = message;
+            const uri = vscode.Uri.file(file);
+            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+            try {
+                const result = await vscode.commands.executeCommand<any>(
+                    'vscode.prepareRename',
+                    uri,
+                    pos
+                );
+                return result ?? null;
+            } catch (e) {
+                // The provider rejects symbols that can't be renamed, with a reason
+                return { rejectReason: e instanceof Error ? e.message : String(e) };
+            }
+        });
+
+        // Renames are applied here rather than in Monaco, so files that aren't on
+        // the canvas are edited too.  Canvas editors get the change as deltas.
+        this._messageBus.register('provideRenameEdits', async (message) => {
+            const { file, position, newName } = message;
+            const uri = vscode.Uri.file(file);
+            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+            try {
+                const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+                    'vscode.executeDocumentRenameProvider',
+                    uri,
+                    pos,
+                    newName
+                );
+                if (!edit || edit.size === 0) {
+                    return { rejectReason: 'No result.' };
+                }
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    return { rejectReason: 'The rename could not be applied.' };
+                }
+                return {
+                    files: edit.entries().map(([entryUri]) => InfiniteFileSystemProvider.getUri(entryUri.fsPath).toString())
+                };
+            } catch (e) {
+                console.error('Failed to rename:', e);
+                return { rejectReason: e instanceof Error ? e.message : String(e) };
+            }
+        });
+
+        this._messageBus.register('provideCodeActions', async (message) => {
+            const { file, range, only } = message;
+            const uri = vscode.Uri.file(file);
+            const vscodeRange = new vscode.Range(range.startLineNumber - 1, range.startColumn - 1, range.endLineNumber - 1, range.endColumn - 1);
+            try {
+                // Diagnostics in the range are picked up by the command itself
+                const actions = await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[]>(
+                    'vscode.executeCodeActionProvider',
+                    uri,
+                    vscodeRange,
+                    only,
+                    CODE_ACTION_RESOLVE_LIMIT
+                );
+                if (!actions || actions.length === 0) {
+                    return null;
+                }
+                const batch = this._nextCodeActionBatch++;
+                this._codeActions.set(batch, actions);
+                return {
+                    batch,
+                    actions: actions.map(action => isCommand(action)
+                        ? { title: action.title }
+                        : {
+                            title: action.title,
+                            kind: action.kind?.value,
+                            isPreferred: action.isPreferred,
+                            disabled: action.disabled?.reason,
+                            diagnostics: action.diagnostics?.map(d => ({
+                                message: d.message,
+                                severity: this._mapSeverity(d.severity),
+                                ...this._mapRange(d.range)
+                            }))
+                        })
+                };
+            } catch (e) {
+                console.error('Failed to provide code actions:', e);
+                return null;
+            }
+        });
+
+        // Runs a code action offered by `provideCodeActions`: its edit, then its command.
+        // Commands apply their own edits, which reach open editors as document changes.
+        this._messageBus.register('applyCodeAction', async (message) => {
+            const action = this._codeActions.get(message.batch)?.[message.index];
+            if (!action) {
+                throw new Error('The code action is no longer available');
+            }
+            const command = isCommand(action) ? action : action.command;
+            if (!isCommand(action) && action.edit && !await vscode.workspace.applyEdit(action.edit)) {
+                throw new Error(`'${action.title}' could not be applied`);
+            }
+            if (command) {
+                await vscode.commands.executeCommand(command.command, ...(command.arguments ?? []));
+            }
+            const edit = isCommand(action) ? undefined : action.edit;
+            return {
+                files: (edit?.entries() ?? []).map(([entryUri]) => InfiniteFileSystemProvider.getUri(entryUri.fsPath).toString())
+            };
+        });
+
+        this._messageBus.register('releaseCodeActions', (message) => {
+            this._codeActions.delete(message.batch);
+        });
+
+        this._messageBus.register('releaseHierarchyItems', (message) => {
+            for (const id of message.ids) {
+                this._hierarchyItems.delete(id);
+            }
+        });
+
+        this._messageBus.register('prepareCallHierarchy', async (message) => {
+            const { file, position } = message;
+            const uri = vscode.Uri.file(file);
+            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+            try {
+                const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+                    'vscode.prepareCallHierarchy',
+                    uri,
+                    pos
+                );
+                return (items ?? []).map(item => this._mapHierarchyItem(item));
+            } catch (e) {
+                console.error('Failed to prepare call hierarchy:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideIncomingCalls', async (message) => {
+            const item = this._hierarchyItems.get(message.id);
+            if (!item) {
+                return null;
+            }
+            try {
+                const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>(
+                    'vscode.provideIncomingCalls',
+                    item
+                );
+                return (calls ?? []).map(call => ({
+                    item: this._mapHierarchyItem(call.from),
+                    fromRanges: call.fromRanges.map(range => this._mapRange(range))
+                }));
+            } catch (e) {
+                console.error('Failed to provide incoming calls:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideOutgoingCalls', async (message) => {
+            const item = this._hierarchyItems.get(message.id);
+            if (!item) {
+                return null;
+            }
+            try {
+                const calls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+                    'vscode.provideOutgoingCalls',
+                    item
+                );
+                return (calls ?? []).map(call => ({
+                    item: this._mapHierarchyItem(call.to),
+                    fromRanges: call.fromRanges.map(range => this._mapRange(range))
+                }));
+            } catch (e) {
+                console.error('Failed to provide outgoing calls:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('prepareTypeHierarchy', async (message) => {
+            const { file, position } = message;
+            const uri = vscode.Uri.file(file);
+            const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+            try {
+                const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+                    'vscode.prepareTypeHierarchy',
+                    uri,
+                    pos
+                );
+                return (items ?? []).map(item => this._mapHierarchyItem(item));
+            } catch (e) {
+                console.error('Failed to prepare type hierarchy:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideSupertypes', async (message) => {
+            const item = this._hierarchyItems.get(message.id);
+            if (!item) {
+                return null;
+            }
+            try {
+                const types = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+                    'vscode.provideSupertypes',
+                    item
+                );
+                return (types ?? []).map(type => this._mapHierarchyItem(type));
+            } catch (e) {
+                console.error('Failed to provide supertypes:', e);
+                return null;
+            }
+        });
+
+        this._messageBus.register('provideSubtypes', async (message) => {
+            const item = this._hierarchyItems.get(message.id);
+            if (!item) {
+                return null;
+            }
+            try {
+                const types = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+                    'vscode.provideSubtypes',
+                    item
+                );
+                return (types ?? []).map(type => this._mapHierarchyItem(type));
+            } catch (e) {
+                console.error('Failed to provide subtypes:', e);
+                return null;
+            }
+        });
+
         this._messageBus.register('toggleBreakpoint', async (message) => {
             const { file, line } = message;
             // Check BOTH real (file://) and virtual (infinite://) URIs for existing breakpoints
@@ -348,32 +880,114 @@ export class InfiniteEditPanel {
         this._messageBus.register('openInNativeEditor', async (message) => {
             const { file } = message;
             const uri = vscode.Uri.file(file);
+            if (getMediaKindForFile(file)) {
+                // Binary files have no TextDocument; let VS Code pick the right editor.
+                await vscode.commands.executeCommand('vscode.open', uri, { preview: false });
+                return;
+            }
             await vscode.window.showTextDocument(uri, { preview: false });
         });
 
         // Persist application state received from the webview's AppStateManager.
         this._messageBus.register('saveAppState', async (message) => {
-            await this._persistenceService.save(message.state);
+            // Drop late saves from a webview that is being replaced (canvas switch / reload)
+            if (!this._isReady) {
+                return;
+            }
+            await this._store?.save(message.state);
         });
 
-        // Forward VS Code document changes to the webview
+        // Reply to `flushAppState`, sent after any pending `saveAppState`.
+        this._messageBus.register('appStateFlushed', () => {
+            this._pendingFlush?.resolve();
+        });
+
+        // Forward VS Code document changes to the webview as deltas
         vscode.workspace.onDidChangeTextDocument(e => {
-            const scheme = e.document.uri.scheme;
-            if (scheme === 'infinite' || scheme === 'file') {
-                const filePath = scheme === 'file' ? e.document.uri.fsPath : e.document.uri.path;
-                const infiniteUri = InfiniteFileSystemProvider.getUri(filePath);
+            if (e.document.uri.scheme !== 'file') {
+                return;
+            }
+            const filePath = e.document.uri.fsPath;
+            const infiniteUri = InfiniteFileSystemProvider.getUri(filePath);
+            // Changes without content changes only update the dirty state (saves, reverts)
+            if (e.contentChanges.length === 0) {
                 this._panel.webview.postMessage({
-                    command: 'didChangeTextDocument',
-                    file: filePath,
+                    command: 'didChangeDirtyState',
                     uri: infiniteUri.toString(),
-                    content: e.document.getText()
+                    isDirty: e.document.isDirty
+                });
+                return;
+            }
+            const deltas: TextDelta[] = e.contentChanges.map(change => ({
+                offset: change.rangeOffset,
+                length: change.rangeLength,
+                text: change.text
+            }));
+            const canvasEdit = this._canvasEdits.get(filePath);
+            const fromCanvas = !!canvasEdit && deltas.length === 1
+                && deltas[0].offset === canvasEdit.offset
+                && deltas[0].length === canvasEdit.length
+                && deltas[0].text === canvasEdit.text;
+            if (fromCanvas) {
+                this._canvasEdits.delete(filePath);
+            }
+            this._panel.webview.postMessage({
+                command: 'didChangeTextDocument',
+                file: filePath,
+                uri: infiniteUri.toString(),
+                version: e.document.version,
+                deltas,
+                fromCanvas,
+                isDirty: e.document.isDirty
+            });
+
+            // Notify the provider to update virtual documents
+            this._fileSystemProvider.notifyFileChanged(infiniteUri);
+        }, null, this._disposables);
+
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.uri.scheme === 'file') {
+                this._panel.webview.postMessage({
+                    command: 'didSaveTextDocument',
+                    uri: InfiniteFileSystemProvider.getUri(document.uri.fsPath).toString()
                 });
+            }
+        }, null, this._disposables);
 
-                // If a real file changed, notify the provider to update virtual documents
-                if (scheme === 'file') {
-                    this._fileSystemProvider.notifyFileChanged(infiniteUri);
-                }
+        // Keep nodes pointing at files that were renamed or moved
+        vscode.workspace.onDidRenameFiles(e => {
+            const files: FileRename[] = e.files.map(f => ({ oldPath: f.oldUri.fsPath, newPath: f.newUri.fsPath }));
+            this._postWhenReady({ command: 'filesRenamed', files });
+        }, null, this._disposables);
+
+        // Turn nodes showing deleted files into "missing file" placeholders
+        vscode.workspace.onDidDeleteFiles(e => {
+            this._postWhenReady({ command: 'filesDeleted', paths: e.files.map(uri => uri.fsPath) });
+        }, null, this._disposables);
+
+        // Follow the native editor when `infiniteEdit.followActiveEditor` is on
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor && this._shouldFollow(editor)) {
+                this._panel.webview.postMessage({
+                    ...this._createOpenFileMessage(editor.document, editor.selection),
+                    reveal: true
+                });
+            }
+        }, null, this._disposables);
+
+        vscode.window.onDidChangeTextEditorSelection(e => {
+            if (e.textEditor !== vscode.window.activeTextEditor || !this._shouldFollow(e.textEditor)) {
+                return;
             }
+            // Cursor moves come in bursts while typing or dragging a selection
+            clearTimeout(this._mirrorSelectionTimeout);
+            this._mirrorSelectionTimeout = setTimeout(() => {
+                this._panel.webview.postMessage({
+                    command: 'mirrorSelection',
+                    file: e.textEditor.document.fileName,
+                    selection: this._mapRange(e.selections[0])
+                });
+            }, 100);
         }, null, this._disposables);
 
         // Forward diagnostics (errors/warnings) to the webview
@@ -435,6 +1049,142 @@ export class InfiniteEditPanel {
         }, null, this._disposables);
     }
 
+    /**
+     * Whether a change in this native editor should be mirrored on the canvas.
+     * Only applies while the canvas is visible next to it.
+     */
+    private _shouldFollow(editor: vscode.TextEditor): boolean {
+        return this._configManager.get('followActiveEditor')
+            && this._isReady
+            && this._panel.visible
+            && editor.document.uri.scheme === 'file';
+    }
+
+    /** Converts a VS Code range to the 1-based Monaco range shape. */
+    /**
+     * Runs a `vscode.execute*Provider` location command at a webview position.
+     * @returns The locations or location links, or null if the provider failed.
+     */
+    private async _provideLocations(command: string, message: any) {
+        const { file, position } = message;
+        const uri = vscode.Uri.file(file);
+        const pos = new vscode.Position(position.lineNumber - 1, position.column - 1);
+        try {
+            return await vscode.commands.executeCommand<any>(command, uri, pos);
+        } catch (e) {
+            console.error(`Failed to run ${command}:`, e);
+            return null;
+        }
+    }
+
+    private _mapRange(range: vscode.Range) {
+        return {
+            startLineNumber: range.start.line + 1,
+            startColumn: range.start.character + 1,
+            endLineNumber: range.end.line + 1,
+            endColumn: range.end.character + 1
+        };
+    }
+
+    /** Keeps a call or type hierarchy item for later requests and converts it for the webview. */
+    private _mapHierarchyItem(item: vscode.CallHierarchyItem | vscode.TypeHierarchyItem): HierarchyItem {
+        const id = this._nextHierarchyItemId++;
+        this._hierarchyItems.set(id, item);
+        return {
+            id,
+            name: item.name,
+            detail: item.detail,
+            kind: item.kind,
+            file: item.uri.fsPath,
+            uri: InfiniteFileSystemProvider.getUri(item.uri.fsPath).toString(),
+            range: this._mapRange(item.range),
+            selectionRange: this._mapRange(item.selectionRange)
+        };
+    }
+
+    private _createOpenFileMessage(document: vscode.TextDocument, selection?: vscode.Range) {
+        const infiniteUri = InfiniteFileSystemProvider.getUri(document.fileName);
+        const diagnostics = vscode.languages.getDiagnostics(document.uri);
+        return {
+            command: 'openFile',
+            file: document.fileName,
+            uri: infiniteUri.toString(),
+            content: document.getText(),
+            document: { version: document.version, isDirty: document.isDirty },
+            diagnostics: diagnostics.map(d => ({
+                message: d.message,
+                severity: this._mapSeverity(d.severity),
+                ...this._mapRange(d.range)
+            })),
+            selection: selection ? this._mapRange(selection) : undefined
+        };
+    }
+
+    /**
+     * Asks whether to save unsaved changes to `files`, VS Code style.
+     * @returns `cancel` if the dialog was dismissed.
+     */
+    private async _confirmUnsavedChanges(files: string[], detail: string): Promise<'save' | 'discard' | 'cancel'> {
+        const message = files.length === 1
+            ? `Do you want to save the changes you made to ${path.basename(files[0])}?`
+            : `Do you want to save the changes to the following ${files.length} files?\n${files.map(f => path.basename(f)).join('\n')}`;
+        const choice = await vscode.window.showWarningMessage(message, { modal: true, detail }, 'Save', "Don't Save");
+        if (choice === 'Save') {
+            return 'save';
+        }
+        return choice === "Don't Save" ? 'discard' : 'cancel';
+    }
+
+    /**
+     * Discards unsaved changes.  There is no API to revert a document, and
+     * the revert command needs it shown in an editor, so the text on disk is
+     * written back in place and saved instead.
+     */
+    private async _revertDocuments(documents: vscode.TextDocument[]) {
+        for (const document of documents) {
+            if (!document.isDirty) {
+                continue;
+            }
+            const content = await vscode.workspace.decode(await vscode.workspace.fs.readFile(document.uri), { encoding: document.encoding });
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), content);
+            if (!await vscode.workspace.applyEdit(edit) || !await document.save()) {
+                throw new Error(`Could not revert ${document.fileName}`);
+            }
+        }
+    }
+
+    /** Saves or reverts documents edited on a canvas that has been closed. */
+    private async _resolveUnsavedOnClose(documents: vscode.TextDocument[]) {
+        const choice = await this._confirmUnsavedChanges(
+            documents.map(d => d.fileName),
+            'The canvas has been closed. Cancel to keep the changes unsaved in VS Code.'
+        );
+        if (choice === 'save') {
+            await Promise.all(documents.map(d => d.save()));
+        } else if (choice === 'discard') {
+            await this._revertDocuments(documents);
+        }
+    }
+
+    private async _fileExists(filePath: string): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /** Posts a message now, or once the webview has finished restoring. */
+    private _postWhenReady(message: any) {
+        if (this._isReady) {
+            this._panel.webview.postMessage(message);
+        } else {
+            this._pendingMessages.push(message);
+        }
+    }
+
     private _mapSeverity(severity: vscode.DiagnosticSeverity): number {
         switch (severity) {
             case vscode.DiagnosticSeverity.Error: return 8; // monaco.MarkerSeverity.Error
@@ -476,6 +1226,7 @@ export class InfiniteEditPanel {
             style-src ${webview.cspSource} 'unsafe-inline' ${isDevelopment ? devServerUrl : ''}; 
             img-src ${webview.cspSource} data: ${isDevelopment ? devServerUrl : ''}; 
             font-src ${webview.cspSource} data: ${isDevelopment ? devServerUrl : ''};
+            frame-src ${webview.cspSource};
             connect-src ${webview.cspSource} ${isDevelopment ? `${devServerUrl} ${devWsSource} ws://0.0.0.0:3000 ws://127.0.0.1:3000` : ''} blob:;
             worker-src ${webview.cspSource} blob: ${isDevelopment ? devServerUrl : 'blob:'};`.replace(/\s+/g, ' ').trim();
 
@@ -500,14 +1251,15 @@ export class InfiniteEditPanel {
     }
 
 
-    public static createOrShow(extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, context: vscode.ExtensionContext) {
+    public static createOrShow(extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
 
         // If we already have a panel, show it.
-        if (InfiniteEditPanel.currentPanel) {
-            InfiniteEditPanel.currentPanel._panel.reveal(column);
+        if (InfiniteEditPanel.namedCanvasPanel) {
+            InfiniteEditPanel.currentPanel = InfiniteEditPanel.namedCanvasPanel;
+            InfiniteEditPanel.namedCanvasPanel._panel.reveal(column);
             return;
         }
 
@@ -519,10 +1271,7 @@ export class InfiniteEditPanel {
             column || vscode.ViewColumn.One,
             {
                 enableScripts: true,
-                localResourceRoots: [
-                    vscode.Uri.joinPath(extensionUri, 'dist'),
-                    vscode.Uri.joinPath(extensionUri, 'assets')
-                ],
+                localResourceRoots: InfiniteEditPanel._getLocalResourceRoots(extensionUri),
                 retainContextWhenHidden: true
             }
         );
@@ -530,40 +1279,79 @@ export class InfiniteEditPanel {
         // Set the icon for the editor tab
         panel.iconPath = vscode.Uri.joinPath(extensionUri, 'assets', 'icon.png');
 
-        InfiniteEditPanel.currentPanel = new InfiniteEditPanel(panel, extensionUri, fileSystemProvider, configManager, context);
+        InfiniteEditPanel.namedCanvasPanel = new InfiniteEditPanel(panel, extensionUri, fileSystemProvider, configManager, canvasRegistry, context);
+        InfiniteEditPanel.currentPanel = InfiniteEditPanel.namedCanvasPanel;
 
         // Pin the panel (do this after creating the panel instance and setting HTML)
         vscode.commands.executeCommand('workbench.action.pinEditor', panel);
     }
 
+    /**
+     * Shows the active canvas from the CanvasRegistry, after writing out any
+     * unsaved changes of the canvas currently shown.
+     */
+    public async reloadCanvas() {
+        await this._flushAppState();
+        this.reloadWebview();
+        this._panel.reveal();
+    }
+
+    /**
+     * Returns the state of the canvas shown in this panel, including changes
+     * the webview hasn't saved yet.
+     */
+    public async getCanvasState(): Promise<PersistedAppState> {
+        await this._flushAppState();
+        return (await this._store?.load()) ?? structuredClone(DEFAULT_APP_STATE);
+    }
+
+    /**
+     * Asks the webview to save its pending state right away.  Resolves once
+     * it has, or after a second if the webview doesn't answer.  Calls made
+     * while a flush is in progress wait for that flush.
+     */
+    private _flushAppState(): Promise<void> {
+        if (!this._isReady) {
+            return Promise.resolve();
+        }
+        if (this._pendingFlush) {
+            return this._pendingFlush.promise;
+        }
+        let resolve!: () => void;
+        const promise = new Promise<void>(r => resolve = r);
+        const flush = {
+            promise,
+            resolve: () => {
+                clearTimeout(timeout);
+                if (this._pendingFlush === flush) {
+                    this._pendingFlush = undefined;
+                }
+                resolve();
+            }
+        };
+        const timeout = setTimeout(() => flush.resolve(), 1000);
+        this._pendingFlush = flush;
+        this._panel.webview.postMessage({ command: 'flushAppState' });
+        return promise;
+    }
+
+    private async _updateTitle() {
+        const canvas = await this._canvasRegistry.getActive();
+        this._panel.title = `Infinite Edit — ${canvas.name}`;
+    }
+
     public reloadWebview() {
         console.log('Infinite EditPanel: reloadWebview requested');
         this._isReady = false;
+        // The new webview can't refer to the old one's items
+        this._hierarchyItems.clear();
         this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
     }
 
-    public openFile(document: vscode.TextDocument, selection?: vscode.Range) {
-        const infiniteUri = InfiniteFileSystemProvider.getUri(document.fileName);
-        const diagnostics = vscode.languages.getDiagnostics(document.uri);
+    public openFile(document: vscode.TextDocument, selection?: vscode.Range, origin?: NavigationOrigin) {
         const message = {
-            command: 'openFile',
-            file: document.fileName,
-            uri: infiniteUri.toString(),
-            content: document.getText(),
-            diagnostics: diagnostics.map(d => ({
-                message: d.message,
-                severity: this._mapSeverity(d.severity),
-                startLineNumber: d.range.start.line + 1,
-                startColumn: d.range.start.character + 1,
-                endLineNumber: d.range.end.line + 1,
-                endColumn: d.range.end.character + 1
-            })),
-            selection: selection ? {
-                startLineNumber: selection.start.line + 1,
-                startColumn: selection.start.character + 1,
-                endLineNumber: selection.end.line + 1,
-                endColumn: selection.end.character + 1
-            } : undefined
+            ...this._createOpenFileMessage(document, selection),
+            origin
             // Note: no `layout` here — new files get auto-positioned by CanvasManager.
             // Persistence is handled entirely by the webview's appStateManager.
         };
@@ -578,8 +1366,93 @@ export class InfiniteEditPanel {
         this._panel.reveal();
     }
 
+    /**
+     * Opens a file on the canvas (if needed), flies the viewport to it and
+     * mirrors the selection without moving focus into the canvas editor.
+     */
+    public revealFile(document: vscode.TextDocument, selection?: vscode.Range) {
+        const message = {
+            ...this._createOpenFileMessage(document, selection),
+            reveal: true
+        };
+
+        if (this._isReady) {
+            this._panel.webview.postMessage(message);
+        } else {
+            this._pendingMessages.push(message);
+        }
+
+        this._panel.reveal();
+    }
+
+    public openMedia(uri: vscode.Uri) {
+        const message = {
+            command: 'openMedia',
+            file: uri.fsPath
+        };
+
+        if (this._isReady) {
+            this._panel.webview.postMessage(message);
+        } else {
+            this._pendingMessages.push(message);
+        }
+
+        this._panel.reveal();
+    }
+
+    /**
+     * Forwards a viewport command (zoom to fit, focus node, …) to the canvas.
+     */
+    public navigateCanvas(action: CanvasNavigationAction) {
+        if (this._isReady) {
+            this._messageBus.send('navigateCanvas', { action });
+        } else {
+            this._pendingMessages.push({ command: 'navigateCanvas', action });
+        }
+
+        this._panel.reveal();
+    }
+
+    /** The extension's bundles and assets, and the workspace folders for MediaNodes. */
+    private static _getLocalResourceRoots(extensionUri: vscode.Uri): vscode.Uri[] {
+        return [
+            vscode.Uri.joinPath(extensionUri, 'dist'),
+            vscode.Uri.joinPath(extensionUri, 'assets'),
+            ...(vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri)
+        ];
+    }
+
+    /**
+     * Shows a shared `*.infinite.json` canvas file in a webview panel created
+     * by VS Code for the custom editor.
+     */
+    public static resolveCanvasFile(panel: vscode.WebviewPanel, document: vscode.TextDocument, extensionUri: vscode.Uri, fileSystemProvider: InfiniteFileSystemProvider, configManager: ConfigurationManager, canvasRegistry: CanvasRegistry, context: vscode.ExtensionContext) {
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: InfiniteEditPanel._getLocalResourceRoots(extensionUri)
+        };
+        panel.iconPath = vscode.Uri.joinPath(extensionUri, 'assets', 'icon.png');
+
+        InfiniteEditPanel.currentPanel = new InfiniteEditPanel(panel, extensionUri, fileSystemProvider, configManager, canvasRegistry, context, document);
+    }
+
     public dispose() {
-        InfiniteEditPanel.currentPanel = undefined;
+        // The panel can't be kept open, but its unsaved edits can still be saved or reverted
+        const unsaved = vscode.workspace.textDocuments.filter(d => d.isDirty && this._editedFiles.has(d.uri.fsPath));
+        if (unsaved.length > 0) {
+            this._resolveUnsavedOnClose(unsaved).catch(e => {
+                console.error('Failed to save or revert files edited on the canvas:', e);
+                vscode.window.showErrorMessage(`Failed to save or revert files edited on the canvas: ${e instanceof Error ? e.message : e}`);
+            });
+        }
+
+        if (InfiniteEditPanel.currentPanel === this) {
+            InfiniteEditPanel.currentPanel = undefined;
+        }
+        if (InfiniteEditPanel.namedCanvasPanel === this) {
+            InfiniteEditPanel.namedCanvasPanel = undefined;
+        }
+        clearTimeout(this._mirrorSelectionTimeout);
 
         // Clean up our resources
         this._panel.dispose();
@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { InfiniteEditPanel } from '../panels/InfiniteEditPanel';
+import { InfiniteFileSystemProvider } from './FileSystemProvider';
+import { ConfigurationManager } from '../services/ConfigurationManager';
+import { CanvasRegistry } from '../services/CanvasRegistry';
+
+/**
+ * Opens `*.infinite.json` canvas files in the canvas instead of as JSON, so
+ * double-clicking a shared canvas in the explorer shows its arrangement.
+ */
+export class CanvasFileEditorProvider implements vscode.CustomTextEditorProvider {
+    public static readonly viewType = 'infinite-edit.canvasFile';
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _fileSystemProvider: InfiniteFileSystemProvider,
+        private readonly _configManager: ConfigurationManager,
+        private readonly _canvasRegistry: CanvasRegistry,
+        private readonly _context: vscode.ExtensionContext,
+    ) { }
+
+    public resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: vscode.WebviewPanel, _token: vscode.CancellationToken) {
+        InfiniteEditPanel.resolveCanvasFile(webviewPanel, document, this._extensionUri, this._fileSystemProvider, this._configManager, this._canvasRegistry, this._context);
+    }
+}
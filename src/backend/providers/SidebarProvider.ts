@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import { CanvasRegistry, type CanvasInfo } from '../services/CanvasRegistry';
+import { escapeHtml } from '../../shared/HtmlUtils';
 
 export class SidebarProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'infinite-edit.sidebarView';
@@ -7,6 +9,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
+        private readonly _canvasRegistry: CanvasRegistry,
     ) { }
 
     public resolveWebviewView(
@@ -24,7 +27,16 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             ]
         };
 
-        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+        this._render();
+
+        // Re-render the canvas list whenever canvases change, while the view exists
+        const registryListener = this._canvasRegistry.onDidChange(() => this._render());
+        webviewView.onDidDispose(() => {
+            registryListener.dispose();
+            if (this._view === webviewView) {
+                this._view = undefined;
+            }
+        });
 
         webviewView.webview.onDidReceiveMessage(data => {
             switch (data.type) {
@@ -32,30 +44,61 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     vscode.commands.executeCommand('infinite-edit.openCanvas');
                     break;
                 }
+                case 'newCanvas': {
+                    vscode.commands.executeCommand('infinite-edit.newCanvas');
+                    break;
+                }
+                case 'switchCanvas': {
+                    vscode.commands.executeCommand('infinite-edit.switchCanvas', data.id);
+                    break;
+                }
+                case 'renameCanvas': {
+                    vscode.commands.executeCommand('infinite-edit.renameCanvas', data.id);
+                    break;
+                }
+                case 'deleteCanvas': {
+                    vscode.commands.executeCommand('infinite-edit.deleteCanvas', data.id);
+                    break;
+                }
             }
         });
     }
 
-    private _getHtmlForWebview(webview: vscode.Webview) {
+    private async _render() {
+        if (!this._view) {
+            return;
+        }
+        const [canvases, active] = await Promise.all([this._canvasRegistry.list(), this._canvasRegistry.getActive()]);
+        this._view.webview.html = this._getHtmlForWebview(this._view.webview, canvases, active);
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview, canvases: CanvasInfo[], active: CanvasInfo) {
         // Get the local path to main script run in the webview, then convert it to a uri we can use in the webview.
         const styleResetUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'reset.css'));
         const styleVSCodeUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'vscode.css'));
 
-        // Use a nonce to only allow a specific script to be run.
+        // Use a nonce to only allow a specific script and stylesheet to be run.
         const nonce = getNonce();
 
+        const canvasItems = canvases.map(canvas => `
+          <li class="canvas-item${canvas.id === active.id ? ' active' : ''}" data-id="${escapeHtml(canvas.id)}">
+            <span class="canvas-name" data-action="switchCanvas" title="Switch to this canvas">${escapeHtml(canvas.name)}</span>
+            <a data-action="renameCanvas" title="Rename">Rename</a>
+            ${canvases.length > 1 ? '<a data-action="deleteCanvas" title="Delete">Delete</a>' : ''}
+          </li>`).join('');
+
         return `<!DOCTYPE html>
 			<html lang="en">
 			<head>
 				<meta charset="UTF-8">
 				<!--
 					Use a content security policy to only allow loading images from https or from our extension directory,
-					and only allow scripts that have a specific nonce.
+					and only allow scripts and styles that have a specific nonce.
 				-->
-				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
 				<meta name="viewport" content="width=device-width, initial-scale=1.0">
 				<title>Infinite Edit</title>
-        <style>
+        <style nonce="${nonce}">
           body { padding: 10px; }
           button {
             background-color: var(--vscode-button-background);
@@ -70,19 +113,53 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
           button:hover {
             background-color: var(--vscode-button-hoverBackground);
           }
+          .hint { margin-top: 10px; font-size: 0.9em; color: var(--vscode-descriptionForeground); }
+          h3 {
+            margin: 18px 0 6px;
+            font-size: 0.85em;
+            text-transform: uppercase;
+            color: var(--vscode-descriptionForeground);
+          }
+          ul { list-style: none; margin: 0 0 8px; padding: 0; }
+          .canvas-item {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            padding: 3px 6px;
+            border-radius: 3px;
+          }
+          .canvas-item:hover { background-color: var(--vscode-list-hoverBackground); }
+          .canvas-item.active { font-weight: bold; }
+          .canvas-name { flex: 1; cursor: pointer; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+          .canvas-item a { cursor: pointer; font-size: 0.85em; color: var(--vscode-textLink-foreground); visibility: hidden; }
+          .canvas-item:hover a { visibility: visible; }
         </style>
 			</head>
 			<body>
 				<button id="open-canvas">Open Canvas</button>
-        <p style="margin-top: 10px; font-size: 0.9em; color: var(--vscode-descriptionForeground);">
+        <p class="hint">
           Click to launch the infinite workspace.
         </p>
 
+        <h3>Canvases</h3>
+        <ul id="canvas-list">${canvasItems}</ul>
+        <button id="new-canvas">New Canvas</button>
+
 				<script nonce="${nonce}">
           const vscode = acquireVsCodeApi();
           document.getElementById('open-canvas').addEventListener('click', () => {
             vscode.postMessage({ type: 'openCanvas' });
           });
+          document.getElementById('new-canvas').addEventListener('click', () => {
+            vscode.postMessage({ type: 'newCanvas' });
+          });
+          document.getElementById('canvas-list').addEventListener('click', (e) => {
+            const action = e.target.dataset.action;
+            const item = e.target.closest('.canvas-item');
+            if (action && item) {
+              vscode.postMessage({ type: action, id: item.dataset.id });
+            }
+          });
         </script>
 			</body>
 			</html>`;
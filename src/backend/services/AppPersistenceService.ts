@@ -4,24 +4,42 @@ import * as fs from 'fs';
 import { Low } from 'lowdb';
 import { JSONFile } from 'lowdb/node';
 import { PersistedAppState, DEFAULT_APP_STATE } from '../../shared/types/appState';
+import { migrateAppState } from './AppStateMigrations';
+
+/**
+ * Where a canvas panel loads its state from and saves it to.
+ */
+export interface CanvasStateStore {
+    /** Returns the saved state, or `null` if there is nothing to restore. */
+    load(): Promise<PersistedAppState | null>;
+    save(state: PersistedAppState): Promise<void>;
+}
 
 /**
  * Persists and restores the full application state as JSON using lowdb.
- * Uses VS Code's `ExtensionContext.storageUri` for workspace-scoped storage.
+ * Uses VS Code's `ExtensionContext.storageUri` for workspace-scoped storage;
+ * each named canvas (see `CanvasRegistry`) has its own state file there.
  *
  * To store a new state category, update `PersistedAppState` in
- * `src/shared/types/appState.ts` — no changes needed here.
+ * `src/shared/types/appState.ts` and add a step to `AppStateMigrations.ts`
+ * — no changes needed here.
+ *
+ * State files from older versions are upgraded on load.  A file that can't
+ * be read or upgraded is copied to a `.backup-<timestamp>` file next to it
+ * and the canvas starts blank, with a warning to the user.
  *
  * If no workspace is open (`storageUri` is undefined), persistence is silently
  * skipped.
  */
-export class AppPersistenceService {
+export class AppPersistenceService implements CanvasStateStore {
     private db: Low<PersistedAppState> | null = null;
     private dbReady: Promise<Low<PersistedAppState> | null> | null = null;
     private readonly storageUri: vscode.Uri | undefined;
+    private readonly fileName: string;
 
-    constructor(storageUri: vscode.Uri | undefined) {
+    constructor(storageUri: vscode.Uri | undefined, fileName: string = 'app-state.json') {
         this.storageUri = storageUri;
+        this.fileName = fileName;
     }
 
     private initDb(): Promise<Low<PersistedAppState> | null> {
@@ -33,16 +51,41 @@ export class AppPersistenceService {
             }
             const dir = this.storageUri.fsPath;
             await fs.promises.mkdir(dir, { recursive: true });
-            const filePath = path.join(dir, 'app-state.json');
+            const filePath = path.join(dir, this.fileName);
             const adapter = new JSONFile<PersistedAppState>(filePath);
             const db = new Low(adapter, structuredClone(DEFAULT_APP_STATE));
-            await db.read();
+            try {
+                await db.read();
+                db.data = migrateAppState(db.data);
+            } catch (e) {
+                await this.recover(filePath, e);
+                db.data = structuredClone(DEFAULT_APP_STATE);
+            }
             this.db = db;
             return db;
         })();
         return this.dbReady;
     }
 
+    /**
+     * Backs up a state file that failed to load, so resetting the canvas
+     * doesn't destroy it, and tells the user.
+     */
+    private async recover(filePath: string, error: unknown): Promise<void> {
+        console.error(`AppPersistenceService: Failed to load '${filePath}':`, error);
+        const backupPath = `${filePath}.backup-${Date.now()}`;
+        try {
+            await fs.promises.copyFile(filePath, backupPath);
+        } catch (e) {
+            console.error('AppPersistenceService: Failed to back up state file:', e);
+            vscode.window.showWarningMessage(`Infinite Edit: The saved canvas could not be restored and has been reset. ${error}`);
+            return;
+        }
+        vscode.window.showWarningMessage(
+            `Infinite Edit: The saved canvas could not be restored and has been reset. The original was backed up to '${path.basename(backupPath)}'. ${error}`
+        );
+    }
+
     /**
      * Returns the last saved application state, or `null` if no prior session
      * exists (i.e. the canvas has never had any open editors).
@@ -51,8 +94,9 @@ export class AppPersistenceService {
         const db = await this.initDb();
         if (!db || !db.data) { return null; }
         // Treat as "no prior session" when the canvas is empty.  Update this
-        // check to also include other categories once they exist.
-        if (db.data.canvas.nodes.length === 0) { return null; }
+        // check when new categories are added.
+        const { canvas, notes, media } = db.data;
+        if (canvas.nodes.length === 0 && notes.notes.length === 0 && media.items.length === 0) { return null; }
         return db.data;
     }
 
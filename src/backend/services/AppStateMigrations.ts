@@ -0,0 +1,110 @@
+import { type PersistedAppState, DEFAULT_APP_STATE } from '../../shared/types/appState';
+
+/**
+ * Thrown when a state file cannot be upgraded to the current schema, either
+ * because it comes from a newer version of the extension or because the
+ * upgraded result is not a valid `PersistedAppState`.
+ */
+export class AppStateMigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AppStateMigrationError';
+    }
+}
+
+/**
+ * Upgrade steps, keyed by the version they upgrade *from*.  Each step takes
+ * a state of version `n` and returns one of version `n + 1`.
+ *
+ * When the schema changes: bump `DEFAULT_APP_STATE.version` and add a step
+ * here for the previous version.  Steps must never be edited once released.
+ */
+const MIGRATIONS: Record<number, (state: any) => any> = {
+    // v2: markdown notes
+    1: (state) => ({ ...state, notes: state.notes ?? { notes: [] } }),
+    // v3: media nodes
+    2: (state) => ({ ...state, media: state.media ?? { items: [] } }),
+    // v4: connections between nodes
+    3: (state) => ({ ...state, connections: state.connections ?? { connections: [] } })
+};
+
+/**
+ * Upgrades raw persisted state to the current schema version, one step at a
+ * time, and validates the result.  State written before `version` existed
+ * is treated as version 1.
+ * @throws AppStateMigrationError if the state can't be upgraded.
+ */
+export function migrateAppState(raw: unknown): PersistedAppState {
+    if (!isObject(raw)) {
+        throw new AppStateMigrationError('State is not an object');
+    }
+    let state: any = raw;
+    let version = typeof state.version === 'number' ? state.version : 1;
+    if (version > DEFAULT_APP_STATE.version) {
+        throw new AppStateMigrationError(`State version ${version} is newer than supported version ${DEFAULT_APP_STATE.version}`);
+    }
+
+    while (version < DEFAULT_APP_STATE.version) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new AppStateMigrationError(`No migration from version ${version}`);
+        }
+        state = migrate(state);
+        version++;
+    }
+    state = { ...state, version };
+
+    const problem = validateAppState(state);
+    if (problem) {
+        throw new AppStateMigrationError(problem);
+    }
+    return state;
+}
+
+/**
+ * Checks the shape of a current-version state.
+ * @returns A description of the first problem found, or `null` if valid.
+ */
+export function validateAppState(state: any): string | null {
+    if (!isObject(state.canvas) || !Array.isArray(state.canvas.nodes)) {
+        return 'canvas.nodes is not an array';
+    }
+    const viewport = state.canvas.viewport;
+    if (!isObject(viewport) || !isFiniteNumber(viewport.panX) || !isFiniteNumber(viewport.panY) || !isFiniteNumber(viewport.zoom)) {
+        return 'canvas.viewport is invalid';
+    }
+    if (!state.canvas.nodes.every((node: any) => isObject(node) && typeof node.filePath === 'string' && hasBounds(node))) {
+        return 'canvas.nodes contains an invalid node';
+    }
+    if (!isObject(state.notes) || !Array.isArray(state.notes.notes)) {
+        return 'notes.notes is not an array';
+    }
+    if (!state.notes.notes.every((note: any) => isObject(note) && typeof note.id === 'string' && hasBounds(note))) {
+        return 'notes.notes contains an invalid note';
+    }
+    if (!isObject(state.media) || !Array.isArray(state.media.items)) {
+        return 'media.items is not an array';
+    }
+    if (!state.media.items.every((item: any) => isObject(item) && typeof item.id === 'string' && typeof item.filePath === 'string' && hasBounds(item))) {
+        return 'media.items contains an invalid item';
+    }
+    if (!isObject(state.connections) || !Array.isArray(state.connections.connections)) {
+        return 'connections.connections is not an array';
+    }
+    if (!state.connections.connections.every((c: any) => isObject(c) && typeof c.id === 'string' && isObject(c.from) && isObject(c.to))) {
+        return 'connections.connections contains an invalid connection';
+    }
+    return null;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function hasBounds(item: any): boolean {
+    return isFiniteNumber(item.x) && isFiniteNumber(item.y) && isFiniteNumber(item.width) && isFiniteNumber(item.height);
+}
@@ -0,0 +1,146 @@
+/**
+ * The format of shareable `*.infinite.json` canvas files.  Kept free of the
+ * VS Code API; `CanvasFileStore` reads and writes the files.
+ */
+
+import * as path from 'path';
+import { type PersistedAppState, DEFAULT_APP_STATE } from '../../shared/types/appState';
+import { type PersistedNodeState } from '../../shared/types/canvasState';
+import { type PersistedNotesState } from '../../shared/types/notesState';
+import { type PersistedMediaState } from '../../shared/types/mediaState';
+import { type PersistedConnectionEndpoint, type PersistedConnectionsState } from '../../shared/types/connectionsState';
+import { migrateAppState } from './AppStateMigrations';
+
+/**
+ * The JSON of a canvas file, as written by `serializeCanvasFile`: app state
+ * without editor node `uri`s and the viewport, with paths relative to the
+ * root where possible.
+ */
+export interface CanvasFile {
+    version: number;
+    canvas: { nodes: Omit<PersistedNodeState, 'uri'>[] };
+    notes: PersistedNotesState;
+    media: PersistedMediaState;
+    connections: PersistedConnectionsState;
+}
+
+/**
+ * Converts app state to the text of a shareable `*.infinite.json` file.
+ *
+ * - File paths inside `rootDir` become relative, POSIX-style paths, so the
+ *   file works in every clone of the repository.  Paths outside it stay
+ *   absolute.
+ * - Editor node `uri`s are dropped; they are derived from the path on load.
+ * - The viewport is dropped: where each user has panned to is their own
+ *   state, kept by `CanvasFileStore`, and shouldn't change the file.
+ * - Items are sorted by path/id and object keys alphabetically, so saving
+ *   an unchanged canvas produces an identical file and diffs stay small.
+ */
+export function serializeCanvasFile(state: PersistedAppState, rootDir: string): string {
+    const toRelative = (filePath: string) => {
+        const relative = path.relative(rootDir, filePath);
+        const outside = relative === '..' || relative.startsWith('..' + path.sep);
+        return outside || path.isAbsolute(relative)
+            ? filePath
+            : relative.split(path.sep).join('/');
+    };
+    const mapEndpoint = (endpoint: PersistedConnectionEndpoint) => ({
+        ...endpoint,
+        // Editor nodes are identified by their file path
+        nodeId: path.isAbsolute(endpoint.nodeId) ? toRelative(endpoint.nodeId) : endpoint.nodeId
+    });
+
+    const file: CanvasFile = {
+        version: state.version,
+        canvas: {
+            nodes: state.canvas.nodes
+                .map(({ uri: _uri, ...node }) => ({ ...node, filePath: toRelative(node.filePath) }))
+                .sort((a, b) => compareOrdinal(a.filePath, b.filePath))
+        },
+        notes: {
+            notes: [...(state.notes?.notes ?? [])].sort((a, b) => compareOrdinal(a.id, b.id))
+        },
+        media: {
+            items: (state.media?.items ?? [])
+                .map(item => ({ ...item, filePath: toRelative(item.filePath) }))
+                .sort((a, b) => compareOrdinal(a.id, b.id))
+        },
+        connections: {
+            connections: (state.connections?.connections ?? [])
+                .map(c => ({ ...c, from: mapEndpoint(c.from), to: mapEndpoint(c.to) }))
+                .sort((a, b) => compareOrdinal(a.id, b.id))
+        }
+    };
+    return JSON.stringify(sortKeys(file), null, 2) + '\n';
+}
+
+/**
+ * Parses a `*.infinite.json` file, upgrading it to the current schema and
+ * resolving relative paths against `rootDir`.  An empty file is a blank
+ * canvas.  The viewport is the default one unless the file has one (files
+ * written by earlier versions do).
+ * @param getUri - Returns the `uri` of the editor node showing a file.
+ * @throws SyntaxError if the text is not valid JSON.
+ * @throws AppStateMigrationError if the file can't be upgraded.
+ */
+export function deserializeCanvasFile(text: string, rootDir: string, getUri: (filePath: string) => string): PersistedAppState {
+    if (text.trim().length === 0) {
+        return structuredClone(DEFAULT_APP_STATE);
+    }
+    const parsed = JSON.parse(text);
+    if (typeof parsed?.canvas === 'object' && parsed.canvas !== null && parsed.canvas.viewport === undefined) {
+        parsed.canvas.viewport = structuredClone(DEFAULT_APP_STATE.canvas.viewport);
+    }
+    const file = migrateAppState(parsed);
+    const toAbsolute = (filePath: string) => path.isAbsolute(filePath)
+        ? filePath
+        : path.join(rootDir, ...filePath.split('/'));
+    // Editor nodes are identified by their file path; notes and media by id
+    const editorPaths = new Set<string>(file.canvas.nodes.map(node => node.filePath));
+    const mapEndpoint = (endpoint: PersistedConnectionEndpoint) => ({
+        ...endpoint,
+        nodeId: editorPaths.has(endpoint.nodeId) ? toAbsolute(endpoint.nodeId) : endpoint.nodeId
+    });
+
+    return {
+        version: file.version,
+        canvas: {
+            nodes: file.canvas.nodes.map(node => {
+                const filePath = toAbsolute(node.filePath);
+                return { ...node, filePath, uri: getUri(filePath) };
+            }),
+            viewport: file.canvas.viewport
+        },
+        notes: { notes: file.notes.notes },
+        media: {
+            items: file.media.items.map(item => ({ ...item, filePath: toAbsolute(item.filePath) }))
+        },
+        connections: {
+            connections: file.connections.connections.map(c => ({ ...c, from: mapEndpoint(c.from), to: mapEndpoint(c.to) }))
+        }
+    };
+}
+
+/**
+ * Compares strings by UTF-16 code units, like `Array.prototype.sort`.
+ * Unlike `localeCompare`, the order doesn't depend on the user's locale.
+ */
+function compareOrdinal(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, any> = {};
+        for (const key of Object.keys(value).sort()) {
+            if (value[key] !== undefined) {
+                sorted[key] = sortKeys(value[key]);
+            }
+        }
+        return sorted;
+    }
+    return value;
+}
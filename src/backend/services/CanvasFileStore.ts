@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { type PersistedAppState } from '../../shared/types/appState';
+import { type PersistedViewportState } from '../../shared/types/canvasState';
+import { InfiniteFileSystemProvider } from '../providers/FileSystemProvider';
+import { type CanvasStateStore } from './AppPersistenceService';
+import { deserializeCanvasFile, serializeCanvasFile } from './CanvasFileFormat';
+
+/** File name suffix of shareable canvas files. */
+export const CANVAS_FILE_EXTENSION = '.infinite.json';
+
+/**
+ * Directory that paths in a canvas file are relative to: the workspace
+ * folder containing it, or the file's own directory outside a workspace.
+ */
+export function getCanvasFileRoot(uri: vscode.Uri): string {
+    return vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(uri.fsPath);
+}
+
+/**
+ * Stores a canvas in a `*.infinite.json` text document opened in the custom
+ * editor.  Saves are applied as edits to the document, so they show up as
+ * unsaved changes and take part in VS Code's save and undo.  The viewport
+ * is kept per user in `viewportState` (workspace state), so panning never
+ * edits the shared file.
+ */
+export class CanvasFileStore implements CanvasStateStore {
+    private readonly document: vscode.TextDocument;
+    private readonly rootDir: string;
+    private readonly viewportState: vscode.Memento;
+    private readonly viewportKey: string;
+    /** Text of our last edit, to tell it apart from external changes. */
+    private lastWrittenText: string | null = null;
+    /** Set when the file failed to parse, so saving can't overwrite it with an empty canvas. */
+    private readOnly: boolean = false;
+
+    constructor(document: vscode.TextDocument, viewportState: vscode.Memento) {
+        this.document = document;
+        this.rootDir = getCanvasFileRoot(document.uri);
+        this.viewportState = viewportState;
+        this.viewportKey = `infiniteEdit.canvasFileViewport:${document.uri.toString()}`;
+    }
+
+    public async load(): Promise<PersistedAppState | null> {
+        try {
+            this.readOnly = false;
+            const state = deserializeCanvasFile(this.document.getText(), this.rootDir, filePath => InfiniteFileSystemProvider.getUri(filePath).toString());
+            const viewport = this.viewportState.get<PersistedViewportState>(this.viewportKey);
+            if (viewport) {
+                state.canvas.viewport = viewport;
+            }
+            return state;
+        } catch (e) {
+            this.readOnly = true;
+            vscode.window.showErrorMessage(`Infinite Edit: '${path.basename(this.document.fileName)}' is not a valid canvas file: ${e}`);
+            return null;
+        }
+    }
+
+    public async save(state: PersistedAppState): Promise<void> {
+        if (this.readOnly) {
+            return;
+        }
+        await this.viewportState.update(this.viewportKey, state.canvas.viewport);
+        const text = serializeCanvasFile(state, this.rootDir);
+        if (text === this.document.getText()) {
+            return;
+        }
+        this.lastWrittenText = text;
+        const edit = new vscode.WorkspaceEdit();
+        const fullRange = new vscode.Range(0, 0, this.document.lineCount, 0);
+        edit.replace(this.document.uri, fullRange, text);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    /**
+     * Whether the document's current text came from somewhere other than
+     * this store (an external edit, git checkout, undo in a text editor).
+     */
+    public isExternalChange(): boolean {
+        return this.document.getText() !== this.lastWrittenText;
+    }
+}
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import { Low, Memory } from 'lowdb';
+import { JSONFile } from 'lowdb/node';
+
+/**
+ * A named canvas.  Each canvas keeps its own nodes and viewport in a
+ * separate state file inside the workspace storage directory.
+ */
+export interface CanvasInfo {
+    id: string;
+    name: string;
+    /** State file name, relative to the workspace storage directory. */
+    fileName: string;
+}
+
+interface CanvasRegistryData {
+    activeCanvasId: string;
+    canvases: CanvasInfo[];
+}
+
+/**
+ * The canvas that existed before named canvases were introduced.  It keeps
+ * using `app-state.json`, so existing sessions carry over unchanged.
+ */
+const DEFAULT_CANVAS: CanvasInfo = { id: 'default', name: 'Default', fileName: 'app-state.json' };
+
+const DEFAULT_REGISTRY: CanvasRegistryData = {
+    activeCanvasId: DEFAULT_CANVAS.id,
+    canvases: [DEFAULT_CANVAS]
+};
+
+/** Throws if `data` read from `canvases.json` isn't a usable registry. */
+function validateRegistry(data: unknown): asserts data is CanvasRegistryData {
+    const registry = data as Partial<CanvasRegistryData> | null;
+    if (!registry || typeof registry !== 'object' || typeof registry.activeCanvasId !== 'string') {
+        throw new Error('Invalid canvas list: missing active canvas');
+    }
+    if (!Array.isArray(registry.canvases) || registry.canvases.length === 0) {
+        throw new Error('Invalid canvas list: no canvases');
+    }
+    for (const canvas of registry.canvases) {
+        if (!canvas || typeof canvas.id !== 'string' || typeof canvas.name !== 'string' || typeof canvas.fileName !== 'string') {
+            throw new Error('Invalid canvas list: malformed canvas entry');
+        }
+    }
+}
+
+/**
+ * Keeps the list of named canvases for the workspace and which one is
+ * active, persisted as `canvases.json` next to the canvas state files.
+ *
+ * If no workspace is open (`storageUri` is undefined), the registry lives in
+ * memory only.
+ */
+export class CanvasRegistry {
+    private db: Low<CanvasRegistryData> | null = null;
+    private dbReady: Promise<Low<CanvasRegistryData>> | null = null;
+    private readonly storageUri: vscode.Uri | undefined;
+    private _changeEmitter = new vscode.EventEmitter<void>();
+    /** Fires when canvases are added, renamed, deleted or switched. */
+    public onDidChange = this._changeEmitter.event;
+
+    constructor(storageUri: vscode.Uri | undefined) {
+        this.storageUri = storageUri;
+    }
+
+    private initDb(): Promise<Low<CanvasRegistryData>> {
+        if (this.dbReady) { return this.dbReady; }
+        this.dbReady = (async () => {
+            if (!this.storageUri) {
+                // Nothing to persist to; keep the registry in memory.
+                const db = new Low(new Memory<CanvasRegistryData>(), structuredClone(DEFAULT_REGISTRY));
+                this.db = db;
+                return db;
+            }
+            const dir = this.storageUri.fsPath;
+            await fs.promises.mkdir(dir, { recursive: true });
+            const filePath = path.join(dir, 'canvases.json');
+            const adapter = new JSONFile<CanvasRegistryData>(filePath);
+            const db = new Low(adapter, structuredClone(DEFAULT_REGISTRY));
+            try {
+                await db.read();
+                validateRegistry(db.data);
+            } catch (e) {
+                await this.recover(filePath, e);
+                db.data = structuredClone(DEFAULT_REGISTRY);
+            }
+            this.db = db;
+            return db;
+        })();
+        return this.dbReady;
+    }
+
+    /**
+     * Backs up a canvas list that failed to load, so resetting it doesn't
+     * destroy it, and tells the user.
+     */
+    private async recover(filePath: string, error: unknown): Promise<void> {
+        console.error(`CanvasRegistry: Failed to load '${filePath}':`, error);
+        const backupPath = `${filePath}.backup-${Date.now()}`;
+        try {
+            await fs.promises.copyFile(filePath, backupPath);
+        } catch (e) {
+            console.error('CanvasRegistry: Failed to back up the canvas list:', e);
+            vscode.window.showWarningMessage(`Infinite Edit: The list of canvases could not be read and has been reset. ${error}`);
+            return;
+        }
+        vscode.window.showWarningMessage(
+            `Infinite Edit: The list of canvases could not be read and has been reset. The original was backed up to '${path.basename(backupPath)}'. ${error}`
+        );
+    }
+
+    private async commit(): Promise<void> {
+        await this.db?.write();
+        this._changeEmitter.fire();
+    }
+
+    public async list(): Promise<CanvasInfo[]> {
+        const db = await this.initDb();
+        return db.data.canvases.map(c => ({ ...c }));
+    }
+
+    public async get(id: string): Promise<CanvasInfo | undefined> {
+        return (await this.list()).find(c => c.id === id);
+    }
+
+    public async getActive(): Promise<CanvasInfo> {
+        const db = await this.initDb();
+        const active = db.data.canvases.find(c => c.id === db.data.activeCanvasId) ?? db.data.canvases[0];
+        return { ...active };
+    }
+
+    /** Creates an empty canvas.  Does not switch to it. */
+    public async create(name: string): Promise<CanvasInfo> {
+        const db = await this.initDb();
+        const id = randomUUID();
+        const canvas: CanvasInfo = { id, name, fileName: `canvas-${id}.json` };
+        db.data.canvases.push(canvas);
+        await this.commit();
+        return { ...canvas };
+    }
+
+    public async rename(id: string, name: string): Promise<void> {
+        const db = await this.initDb();
+        const canvas = db.data.canvases.find(c => c.id === id);
+        if (!canvas) {
+            throw new Error(`Canvas '${id}' not found`);
+        }
+        canvas.name = name;
+        await this.commit();
+    }
+
+    public async setActive(id: string): Promise<CanvasInfo> {
+        const db = await this.initDb();
+        const canvas = db.data.canvases.find(c => c.id === id);
+        if (!canvas) {
+            throw new Error(`Canvas '${id}' not found`);
+        }
+        db.data.activeCanvasId = id;
+        await this.commit();
+        return { ...canvas };
+    }
+
+    /**
+     * Deletes a canvas and its state file.  The last remaining canvas cannot
+     * be deleted.  When the active canvas is deleted, the first remaining one
+     * becomes active.
+     * @returns The active canvas after the deletion.
+     */
+    public async delete(id: string): Promise<CanvasInfo> {
+        const db = await this.initDb();
+        if (db.data.canvases.length <= 1) {
+            throw new Error('Cannot delete the only canvas');
+        }
+        const canvas = db.data.canvases.find(c => c.id === id);
+        if (!canvas) {
+            throw new Error(`Canvas '${id}' not found`);
+        }
+        db.data.canvases = db.data.canvases.filter(c => c !== canvas);
+        if (db.data.activeCanvasId === id) {
+            db.data.activeCanvasId = db.data.canvases[0].id;
+        }
+        await this.commit();
+
+        if (this.storageUri) {
+            await fs.promises.rm(path.join(this.storageUri.fsPath, canvas.fileName), { force: true });
+        }
+        return this.getActive();
+    }
+
+    public dispose() {
+        this._changeEmitter.dispose();
+    }
+}
@@ -2,8 +2,18 @@ import * as vscode from 'vscode';
 
 export interface InfiniteEditConfig {
     theme: string;
+    autoConnectNavigation: boolean;
+    followActiveEditor: boolean;
 }
 
+/** The Monaco theme matching each VS Code color theme kind. */
+const THEMES_BY_KIND: Record<vscode.ColorThemeKind, string> = {
+    [vscode.ColorThemeKind.Light]: 'vs',
+    [vscode.ColorThemeKind.Dark]: 'vs-dark',
+    [vscode.ColorThemeKind.HighContrast]: 'hc-black',
+    [vscode.ColorThemeKind.HighContrastLight]: 'hc-light',
+};
+
 export class ConfigurationManager {
     private _config: InfiniteEditConfig;
     private _configurationChangeEmitter = new vscode.EventEmitter<InfiniteEditConfig>();
@@ -17,8 +27,13 @@ export class ConfigurationManager {
 
     private _readConfiguration(): InfiniteEditConfig {
         const config = vscode.workspace.getConfiguration('infiniteEdit');
+        // Without an explicit theme, editors follow VS Code's color theme
+        const theme = config.inspect<string>('theme');
         return {
-            theme: config.get('theme', 'vs-dark'),
+            theme: theme?.workspaceFolderValue ?? theme?.workspaceValue ?? theme?.globalValue
+                ?? THEMES_BY_KIND[vscode.window.activeColorTheme.kind],
+            autoConnectNavigation: config.get('autoConnectNavigation', true),
+            followActiveEditor: config.get('followActiveEditor', false),
         };
     }
 
@@ -31,6 +46,14 @@ export class ConfigurationManager {
             }
         });
         this._disposables.push(disposable);
+
+        this._disposables.push(vscode.window.onDidChangeActiveColorTheme(() => {
+            const config = this._readConfiguration();
+            if (config.theme !== this._config.theme) {
+                this._config = config;
+                this._configurationChangeEmitter.fire(this._config);
+            }
+        }));
     }
 
     /**
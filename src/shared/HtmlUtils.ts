@@ -0,0 +1,13 @@
+/**
+ * Escapes characters that have a special meaning in HTML.
+ * @param text - The raw text to escape.
+ * @returns The escaped text, safe to insert as element content or attribute value.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,30 @@
+/**
+ * Shared configuration for media files (images, SVGs, PDFs) that are shown
+ * as MediaNodes instead of being opened as text in an EditorNode.
+ */
+
+export type MediaKind = 'image' | 'svg' | 'pdf';
+
+/**
+ * Maps file extensions to the kind of media node used to display them.
+ */
+export const MEDIA_EXTENSION_MAP: Record<string, MediaKind> = {
+    png: 'image',
+    jpg: 'image',
+    jpeg: 'image',
+    gif: 'image',
+    webp: 'image',
+    bmp: 'image',
+    ico: 'image',
+    svg: 'svg',
+    pdf: 'pdf',
+};
+
+/**
+ * Gets the media kind for a given file name or path, or `null` if the file
+ * should be opened as text.
+ */
+export function getMediaKindForFile(fileName: string): MediaKind | null {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return MEDIA_EXTENSION_MAP[extension] || null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Semantic token legend shared by the backend and the canvas editors.
+ *
+ * Monaco reads a provider's legend once, while every language server on the
+ * host has its own.  The backend therefore re-encodes the host's tokens
+ * against this fixed legend (VS Code's standard token types and modifiers)
+ * before sending them.
+ */
+
+export interface SemanticTokensLegend {
+    tokenTypes: string[];
+    tokenModifiers: string[];
+}
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: [
+        'namespace', 'class', 'enum', 'interface', 'struct', 'typeParameter', 'type',
+        'parameter', 'variable', 'property', 'enumMember', 'decorator', 'event',
+        'function', 'method', 'macro', 'label', 'comment', 'string', 'keyword',
+        'number', 'regexp', 'operator'
+    ],
+    // Monaco styles a token by `<type>.<modifiers in legend order>`, so the
+    // modifiers the theme colors by come first
+    tokenModifiers: [
+        'readonly', 'declaration', 'definition', 'static', 'deprecated', 'abstract',
+        'async', 'modification', 'documentation', 'defaultLibrary'
+    ]
+};
+
+/**
+ * Re-encodes semantic tokens from a host legend to `SEMANTIC_TOKENS_LEGEND`.
+ * Tokens whose type isn't in the shared legend are dropped, and so are
+ * modifiers that aren't.
+ * @param data - Tokens in the standard relative encoding: five integers per
+ *   token (delta line, delta start, length, type, modifier bits).
+ */
+export function remapSemanticTokens(data: ArrayLike<number>, legend: SemanticTokensLegend): number[] {
+    const typeMap = legend.tokenTypes.map(type => SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(type));
+    const modifierMap = legend.tokenModifiers.map(modifier => SEMANTIC_TOKENS_LEGEND.tokenModifiers.indexOf(modifier));
+
+    const result: number[] = [];
+    // Absolute position of the current token, and of the last one kept
+    let line = 0;
+    let start = 0;
+    let lastLine = 0;
+    let lastStart = 0;
+    for (let i = 0; i + 4 < data.length; i += 5) {
+        if (data[i] > 0) {
+            line += data[i];
+            start = data[i + 1];
+        } else {
+            start += data[i + 1];
+        }
+
+        const type = typeMap[data[i + 3]] ?? -1;
+        if (type < 0) {
+            continue;
+        }
+        let modifiers = 0;
+        for (let bit = 0; bit < modifierMap.length; bit++) {
+            if ((data[i + 4] >>> bit) & 1 && modifierMap[bit] >= 0) {
+                modifiers |= 1 << modifierMap[bit];
+            }
+        }
+
+        result.push(line - lastLine, line === lastLine ? start - lastStart : start, data[i + 2], type, modifiers);
+        lastLine = line;
+        lastStart = start;
+    }
+    return result;
+}
@@ -0,0 +1,88 @@
+/**
+ * Helpers for the text deltas exchanged between canvas editors and VS Code
+ * documents (see `TextDelta`).
+ */
+
+import { type TextDelta } from './types/messages';
+
+/**
+ * Rebases one delta over another made concurrently against the same text.
+ * When both insert at the same offset, `a`'s text goes first if `aFirst`.
+ * @returns `[a', b']`, where `a'` applies after `b` and `b'` after `a`, or
+ *   `null` if the deltas overlap.
+ */
+function transformDelta(a: TextDelta, b: TextDelta, aFirst: boolean): [TextDelta, TextDelta] | null {
+    const aEnd = a.offset + a.length;
+    const bEnd = b.offset + b.length;
+    const sameInsertionPoint = a.length === 0 && b.length === 0 && a.offset === b.offset;
+
+    let aBeforeB: boolean;
+    if (sameInsertionPoint) {
+        aBeforeB = aFirst;
+    } else if (aEnd <= b.offset) {
+        aBeforeB = true;
+    } else if (bEnd <= a.offset) {
+        aBeforeB = false;
+    } else {
+        return null;
+    }
+
+    return aBeforeB
+        ? [a, { ...b, offset: b.offset + a.text.length - a.length }]
+        : [{ ...a, offset: a.offset + b.text.length - b.length }, b];
+}
+
+/**
+ * Rebases two delta sequences made concurrently against the same text over
+ * each other, so that applying `a` then `b'` gives the same text as `b` then
+ * `a'`.  When both insert at the same offset, `a`'s text goes first if
+ * `aFirst`.
+ * @returns `[a', b']`, or `null` if a delta in `a` overlaps one in `b`.
+ */
+export function transformDeltas(a: TextDelta[], b: TextDelta[], aFirst: boolean): [TextDelta[], TextDelta[]] | null {
+    const rebasedA = [...a];
+    const rebasedB: TextDelta[] = [];
+    for (let delta of b) {
+        for (let i = 0; i < rebasedA.length; i++) {
+            const result = transformDelta(rebasedA[i], delta, aFirst);
+            if (!result) {
+                return null;
+            }
+            [rebasedA[i], delta] = result;
+        }
+        rebasedB.push(delta);
+    }
+    return [rebasedA, rebasedB];
+}
+
+/**
+ * Combines a delta sequence into a single delta against `text`, covering
+ * only the span that actually changed.
+ * @returns The combined delta, or `null` if the deltas leave `text` unchanged.
+ */
+export function composeDeltas(text: string, deltas: TextDelta[]): TextDelta | null {
+    if (deltas.length === 0) {
+        return null;
+    }
+    let result = text;
+    for (const delta of deltas) {
+        result = result.slice(0, delta.offset) + delta.text + result.slice(delta.offset + delta.length);
+    }
+
+    // Text before the first delta's offset can't have changed
+    let start = Math.min(...deltas.map(delta => delta.offset));
+    while (start < text.length && start < result.length && text[start] === result[start]) {
+        start++;
+    }
+    let end = text.length;
+    let resultEnd = result.length;
+    while (end > start && resultEnd > start && text[end - 1] === result[resultEnd - 1]) {
+        end--;
+        resultEnd--;
+    }
+
+    if (start === end && start === resultEnd) {
+        return null;
+    }
+    return { offset: start, length: end - start, text: result.slice(start, resultEnd) };
+}
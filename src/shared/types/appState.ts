@@ -1,4 +1,7 @@
 import { PersistedCanvasState, DEFAULT_CANVAS_STATE } from './canvasState';
+import { type PersistedNotesState, DEFAULT_NOTES_STATE } from './notesState';
+import { type PersistedMediaState, DEFAULT_MEDIA_STATE } from './mediaState';
+import { type PersistedConnectionsState, DEFAULT_CONNECTIONS_STATE } from './connectionsState';
 
 /**
  * Root persisted application state.
@@ -11,18 +14,23 @@ import { PersistedCanvasState, DEFAULT_CANVAS_STATE } from './canvasState';
  *   4. Add scoped helper methods to `AppStateManager` in
  *      `src/webview/core/AppStateManager.ts`.
  *
- * Increment `version` when the schema changes to allow forward-migration.
+ * Increment `version` when the schema changes and add an upgrade step for
+ * the previous version in `src/backend/services/AppStateMigrations.ts`.
  */
 export interface PersistedAppState {
     version: number;
     canvas: PersistedCanvasState;
+    notes: PersistedNotesState;
+    media: PersistedMediaState;
+    connections: PersistedConnectionsState;
     // Future categories — uncomment / add as the app grows:
-    // media: PersistedMediaState;
     // strokes: PersistedStrokesState;
-    // notes: PersistedNotesState;
 }
 
 export const DEFAULT_APP_STATE: PersistedAppState = {
-    version: 1,
-    canvas: structuredClone(DEFAULT_CANVAS_STATE)
+    version: 4,
+    canvas: structuredClone(DEFAULT_CANVAS_STATE),
+    notes: structuredClone(DEFAULT_NOTES_STATE),
+    media: structuredClone(DEFAULT_MEDIA_STATE),
+    connections: structuredClone(DEFAULT_CONNECTIONS_STATE)
 };
@@ -0,0 +1,32 @@
+/**
+ * One end of a connection.  `lineRange` is only meaningful for editor nodes
+ * and anchors the arrow to those lines instead of the whole node.
+ */
+export interface PersistedConnectionEndpoint {
+    /** Node id: the file path for editors, the generated id for notes and media. */
+    nodeId: string;
+    /** 1-based, inclusive line range inside an editor node. */
+    lineRange?: { startLineNumber: number; endLineNumber: number };
+}
+
+/** Persisted state for a single arrow between two nodes. */
+export interface PersistedConnectionState {
+    id: string;
+    from: PersistedConnectionEndpoint;
+    to: PersistedConnectionEndpoint;
+    label: string;
+    /**
+     * Set on connections generated from code navigation.  They are drawn
+     * dashed and can be cleared in one go; editing the label keeps one.
+     */
+    auto?: boolean;
+}
+
+/** State for the connections layer. */
+export interface PersistedConnectionsState {
+    connections: PersistedConnectionState[];
+}
+
+export const DEFAULT_CONNECTIONS_STATE: PersistedConnectionsState = {
+    connections: []
+};
@@ -0,0 +1,22 @@
+/**
+ * Persisted state for a single media node (image, SVG or PDF) on the canvas.
+ * The same file may be placed more than once, so items are identified by `id`.
+ */
+export interface PersistedMediaItemState {
+    id: string;
+    filePath: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    zIndex: number;
+}
+
+/** State for the media layer. */
+export interface PersistedMediaState {
+    items: PersistedMediaItemState[];
+}
+
+export const DEFAULT_MEDIA_STATE: PersistedMediaState = {
+    items: []
+};
@@ -3,6 +3,16 @@ export interface Message {
     payload?: any;
 }
 
+/**
+ * Where a code navigation (Go to Definition, Find References) started.
+ * Sent with `requestOpenFile` and echoed back on the resulting `openFile`
+ * message so the canvas can connect the source line to the target.
+ */
+export interface NavigationOrigin {
+    file: string;
+    lineNumber: number;
+}
+
 /**
  * Layout hint attached to an `openFile` message when restoring a node from
  * a persisted session.  When present, CanvasManager uses these values instead
@@ -15,3 +25,98 @@ export interface PersistedLayoutHint {
     height: number;
     zIndex: number;
 }
+
+/**
+ * A node whose file could not be found when the canvas was restored, sent
+ * with `restoreMissingFiles` so it can be shown as a placeholder.
+ */
+export interface MissingFileInfo {
+    nodeType: 'editor' | 'media';
+    /** Node id: the file path for editors, the generated id for media. */
+    id: string;
+    filePath: string;
+    /** Editors only: the node's `infinite:` URI. */
+    uri?: string;
+    layout: PersistedLayoutHint;
+}
+
+/**
+ * A file or folder renamed in the workspace, sent with `filesRenamed` so
+ * the canvas can retarget the nodes showing it (or files inside it).
+ */
+export interface FileRename {
+    oldPath: string;
+    newPath: string;
+}
+
+/**
+ * State of the VS Code document behind an editor node, sent with `openFile`.
+ * `version` is the version of the message's `content`.
+ */
+export interface DocumentState {
+    version: number;
+    isDirty: boolean;
+}
+
+/**
+ * A change to a text document, exchanged between canvas editors and VS Code
+ * (`applyEdits`, `didChangeTextDocument`) instead of the full text: the
+ * `length` characters at `offset` are replaced with `text`.
+ *
+ * Offsets are UTF-16 offsets into the text as it is just before the delta
+ * applies; in a list, each delta applies to the result of the previous one.
+ */
+export interface TextDelta {
+    offset: number;
+    length: number;
+    text: string;
+}
+
+/** 1-based line/column range, as used by Monaco. */
+export interface LineColumnRange {
+    startLineNumber: number;
+    startColumn: number;
+    endLineNumber: number;
+    endColumn: number;
+}
+
+/**
+ * A symbol in a call or type hierarchy, sent by `prepareCallHierarchy`,
+ * `prepareTypeHierarchy`, `provideSupertypes`/`provideSubtypes` and with
+ * the calls from `provideIncomingCalls`/`provideOutgoingCalls`.  The
+ * backend keeps the VS Code item; `id` refers to it in later requests
+ * until the webview sends `releaseHierarchyItems`.
+ */
+export interface HierarchyItem {
+    id: number;
+    name: string;
+    detail?: string;
+    kind: number;
+    file: string;
+    /** The file's `infinite:` URI. */
+    uri: string;
+    /** The symbol's whole declaration, e.g. a function with its body. */
+    range: LineColumnRange;
+    /** The symbol's name within `range`. */
+    selectionRange: LineColumnRange;
+}
+
+/**
+ * A call from `provideIncomingCalls` (`item` is the caller, `fromRanges`
+ * are in the caller) or `provideOutgoingCalls` (`item` is the callee,
+ * `fromRanges` are in the item the calls were requested for).
+ */
+export interface HierarchyCall {
+    item: HierarchyItem;
+    fromRanges: LineColumnRange[];
+}
+
+/**
+ * Viewport operations triggered from VS Code commands and forwarded to the
+ * canvas with a `navigateCanvas` message.
+ *
+ * - `zoomToFit`: fit every node on screen.
+ * - `zoomToSelection`: fit the selected nodes.
+ * - `focusNode`: fly to the focused node.
+ */
+export type CanvasNavigationAction = 'zoomToFit' | 'zoomToSelection' | 'focusNode';
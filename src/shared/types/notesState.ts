@@ -0,0 +1,23 @@
+/**
+ * Persisted state for a single markdown note on the canvas.
+ * Notes are not backed by a file, so they are identified by a generated `id`.
+ */
+export interface PersistedNoteState {
+    id: string;
+    /** Raw markdown source of the note. */
+    content: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    zIndex: number;
+}
+
+/** State for the notes layer. */
+export interface PersistedNotesState {
+    notes: PersistedNoteState[];
+}
+
+export const DEFAULT_NOTES_STATE: PersistedNotesState = {
+    notes: []
+};
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { AppStateMigrationError, migrateAppState } from '../backend/services/AppStateMigrations';
+import { DEFAULT_APP_STATE } from '../shared/types/appState';
+
+const canvas = {
+	nodes: [{ filePath: '/project/src/index.ts', uri: 'infinite:/project/src/index.ts', x: 10, y: 20, width: 600, height: 400, zIndex: 1 }],
+	viewport: { panX: -100, panY: 50, zoom: 2 }
+};
+const notes = { notes: [{ id: 'note-1', content: '# Notes', x: 0, y: 0, width: 320, height: 240, zIndex: 2 }] };
+const media = { items: [{ id: 'media-1', filePath: '/project/logo.png', x: 700, y: 0, width: 200, height: 200, zIndex: 3 }] };
+
+suite('migrateAppState', () => {
+	test('upgrades version 1 state, written before versions existed', () => {
+		const state = migrateAppState({ canvas });
+		assert.deepStrictEqual(state, {
+			version: DEFAULT_APP_STATE.version,
+			canvas,
+			notes: { notes: [] },
+			media: { items: [] },
+			connections: { connections: [] }
+		});
+	});
+
+	test('upgrades version 2 state, keeping its notes', () => {
+		const state = migrateAppState({ version: 2, canvas, notes });
+		assert.strictEqual(state.version, DEFAULT_APP_STATE.version);
+		assert.deepStrictEqual(state.notes, notes);
+		assert.deepStrictEqual(state.media, { items: [] });
+		assert.deepStrictEqual(state.connections, { connections: [] });
+	});
+
+	test('upgrades version 3 state, keeping its media', () => {
+		const state = migrateAppState({ version: 3, canvas, notes, media });
+		assert.strictEqual(state.version, DEFAULT_APP_STATE.version);
+		assert.deepStrictEqual(state.media, media);
+		assert.deepStrictEqual(state.connections, { connections: [] });
+	});
+
+	test('accepts current state unchanged', () => {
+		const current = {
+			version: DEFAULT_APP_STATE.version,
+			canvas,
+			notes,
+			media,
+			connections: { connections: [{ id: 'c-1', from: { nodeId: 'note-1' }, to: { nodeId: '/project/src/index.ts' }, label: '' }] }
+		};
+		assert.deepStrictEqual(migrateAppState(current), current);
+	});
+
+	test('rejects state from a newer version', () => {
+		assert.throws(
+			() => migrateAppState({ ...DEFAULT_APP_STATE, version: DEFAULT_APP_STATE.version + 1 }),
+			AppStateMigrationError
+		);
+	});
+
+	test('rejects state that fails validation after upgrading', () => {
+		assert.throws(
+			() => migrateAppState({ version: 1, canvas: { nodes: [], viewport: { panX: 0, panY: 0 } } }),
+			(e: unknown) => e instanceof AppStateMigrationError && e.message === 'canvas.viewport is invalid'
+		);
+		assert.throws(
+			() => migrateAppState({ version: 2, canvas, notes: { notes: [{ id: 'note-1' }] } }),
+			(e: unknown) => e instanceof AppStateMigrationError && e.message === 'notes.notes contains an invalid note'
+		);
+	});
+
+	test('rejects anything but an object', () => {
+		assert.throws(() => migrateAppState(null), AppStateMigrationError);
+		assert.throws(() => migrateAppState([canvas]), AppStateMigrationError);
+	});
+});
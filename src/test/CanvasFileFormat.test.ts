@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { type CanvasFile, deserializeCanvasFile, serializeCanvasFile } from '../backend/services/CanvasFileFormat';
+import { type PersistedAppState, DEFAULT_APP_STATE } from '../shared/types/appState';
+
+const rootDir = path.join(path.sep, 'work', 'project');
+const inside = path.join(rootDir, 'src', 'index.ts');
+// Inside the root despite the leading '..'
+const dotted = path.join(rootDir, '..config', 'settings.ts');
+const outside = path.join(path.sep, 'work', 'shared', 'lib.ts');
+const outsideMedia = path.join(path.sep, 'work', 'assets', 'logo.png');
+
+const getUri = (filePath: string) => `infinite:${filePath}`;
+
+function editorNode(filePath: string, x: number) {
+	return { filePath, uri: getUri(filePath), x, y: 0, width: 600, height: 400, zIndex: 1 };
+}
+
+function byPath<T extends { filePath: string }>(items: T[]): T[] {
+	return [...items].sort((a, b) => a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0);
+}
+
+const state: PersistedAppState = {
+	version: DEFAULT_APP_STATE.version,
+	canvas: {
+		nodes: [editorNode(inside, 0), editorNode(outside, 700), editorNode(dotted, 1400)],
+		viewport: { panX: -120, panY: 40, zoom: 1 }
+	},
+	notes: { notes: [{ id: 'note-b', content: 'b', x: 0, y: 500, width: 320, height: 240, zIndex: 2 }, { id: 'note-a', content: 'a', x: 400, y: 500, width: 320, height: 240, zIndex: 3 }] },
+	media: { items: [{ id: 'media-1', filePath: outsideMedia, x: 0, y: 900, width: 200, height: 200, zIndex: 4 }] },
+	connections: {
+		connections: [
+			{ id: 'c-2', from: { nodeId: inside, lineRange: { startLineNumber: 3, endLineNumber: 5 } }, to: { nodeId: outside }, label: 'imports' },
+			{ id: 'c-1', from: { nodeId: 'note-a' }, to: { nodeId: dotted }, label: '' }
+		]
+	}
+};
+
+suite('CanvasFileFormat', () => {
+	test('writes paths inside the root relative and paths outside it absolute', () => {
+		const file: CanvasFile = JSON.parse(serializeCanvasFile(state, rootDir));
+		const filePaths = file.canvas.nodes.map(node => node.filePath);
+		assert.ok(filePaths.includes('src/index.ts'));
+		assert.ok(filePaths.includes('..config/settings.ts'));
+		assert.ok(filePaths.includes(outside));
+		assert.strictEqual(file.media.items[0].filePath, outsideMedia);
+		assert.deepStrictEqual(file.connections.connections.map(c => [c.from.nodeId, c.to.nodeId]), [
+			['note-a', '..config/settings.ts'],
+			['src/index.ts', outside]
+		]);
+		assert.ok(file.canvas.nodes.every(node => !('uri' in node)));
+		assert.ok(!('viewport' in file.canvas));
+	});
+
+	test('round-trips state with paths outside the root, except the viewport', () => {
+		const restored = deserializeCanvasFile(serializeCanvasFile(state, rootDir), rootDir, getUri);
+		assert.deepStrictEqual(
+			{ ...restored, canvas: { ...restored.canvas, nodes: byPath(restored.canvas.nodes) } },
+			{
+				...state,
+				canvas: { nodes: byPath(state.canvas.nodes), viewport: DEFAULT_APP_STATE.canvas.viewport },
+				notes: { notes: [state.notes.notes[1], state.notes.notes[0]] },
+				connections: { connections: [state.connections.connections[1], state.connections.connections[0]] }
+			}
+		);
+	});
+
+	test('writes the same text for the same canvas in any order', () => {
+		const shuffled: PersistedAppState = {
+			...state,
+			canvas: { ...state.canvas, nodes: [...state.canvas.nodes].reverse() },
+			notes: { notes: [...state.notes.notes].reverse() },
+			connections: { connections: [...state.connections.connections].reverse() }
+		};
+		assert.strictEqual(serializeCanvasFile(shuffled, rootDir), serializeCanvasFile(state, rootDir));
+	});
+
+	test('keeps the viewport of files written with one', () => {
+		const file: CanvasFile = JSON.parse(serializeCanvasFile(state, rootDir));
+		const text = JSON.stringify({ ...file, canvas: { ...file.canvas, viewport: state.canvas.viewport } });
+		const restored = deserializeCanvasFile(text, rootDir, getUri);
+		assert.deepStrictEqual(restored.canvas.viewport, state.canvas.viewport);
+	});
+
+	test('reads an empty file as a blank canvas', () => {
+		assert.deepStrictEqual(deserializeCanvasFile('  \n', rootDir, getUri), DEFAULT_APP_STATE);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { remapSemanticTokens, SEMANTIC_TOKENS_LEGEND, type SemanticTokensLegend } from '../shared/SemanticTokens';
+
+const type = (name: string) => SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(name);
+const modifier = (name: string) => 1 << SEMANTIC_TOKENS_LEGEND.tokenModifiers.indexOf(name);
+
+/** A host legend in a different order, with a type and a modifier the shared legend lacks. */
+const hostLegend: SemanticTokensLegend = {
+	tokenTypes: ['variable', 'customType', 'class', 'function'],
+	tokenModifiers: ['async', 'readonly', 'customModifier']
+};
+
+suite('remapSemanticTokens', () => {
+	test('re-encodes types and modifiers against the shared legend', () => {
+		const data = [
+			0, 0, 3, 0, 0b010,  // variable, readonly
+			0, 12, 2, 2, 0b101, // class, async + customModifier
+			2, 4, 5, 3, 0       // function
+		];
+		assert.deepStrictEqual(remapSemanticTokens(data, hostLegend), [
+			0, 0, 3, type('variable'), modifier('readonly'),
+			0, 12, 2, type('class'), modifier('async'),
+			2, 4, 5, type('function'), 0
+		]);
+	});
+
+	test('drops tokens of unknown types and keeps the others in place', () => {
+		const data = [
+			0, 0, 3, 0, 0, // variable at 0:0
+			0, 5, 4, 1, 0, // customType at 0:5
+			0, 7, 2, 2, 0, // class at 0:12
+			5, 2, 6, 1, 0, // customType at 5:2
+			0, 6, 1, 0, 0  // variable at 5:8
+		];
+		assert.deepStrictEqual(remapSemanticTokens(data, hostLegend), [
+			0, 0, 3, type('variable'), 0,
+			0, 12, 2, type('class'), 0,
+			5, 8, 1, type('variable'), 0
+		]);
+	});
+
+	test('drops tokens whose type is outside the host legend', () => {
+		assert.deepStrictEqual(remapSemanticTokens([0, 0, 3, 9, 0], hostLegend), []);
+	});
+
+	test('leaves tokens in the shared legend unchanged', () => {
+		const data = [1, 2, 3, type('method'), modifier('static') | modifier('declaration'), 0, 4, 2, type('parameter'), 0];
+		assert.deepStrictEqual(remapSemanticTokens(data, SEMANTIC_TOKENS_LEGEND), data);
+	});
+});
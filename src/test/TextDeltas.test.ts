@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { composeDeltas, transformDeltas } from '../shared/TextDeltas';
+import { type TextDelta } from '../shared/types/messages';
+
+function apply(text: string, deltas: TextDelta[]): string {
+	for (const delta of deltas) {
+		text = text.slice(0, delta.offset) + delta.text + text.slice(delta.offset + delta.length);
+	}
+	return text;
+}
+
+/** Applies `a` then `b'`, and `b` then `a'`, asserting both give `expected`. */
+function assertConverges(text: string, a: TextDelta[], b: TextDelta[], aFirst: boolean, expected: string) {
+	const result = transformDeltas(a, b, aFirst);
+	assert.ok(result, 'deltas should not conflict');
+	const [rebasedA, rebasedB] = result;
+	assert.strictEqual(apply(apply(text, a), rebasedB), expected);
+	assert.strictEqual(apply(apply(text, b), rebasedA), expected);
+}
+
+suite('TextDeltas', () => {
+	suite('transformDeltas', () => {
+		test('rebases an insert over a later delete', () => {
+			assertConverges(
+				'hello world',
+				[{ offset: 0, length: 0, text: '> ' }],
+				[{ offset: 6, length: 5, text: '' }],
+				true,
+				'> hello '
+			);
+		});
+
+		test('rebases a delete over an earlier insert', () => {
+			assertConverges(
+				'hello world',
+				[{ offset: 5, length: 6, text: '' }],
+				[{ offset: 0, length: 0, text: 'oh, ' }],
+				true,
+				'oh, hello'
+			);
+		});
+
+		test('orders inserts at the same offset by aFirst', () => {
+			const a = [{ offset: 5, length: 0, text: 'A' }];
+			const b = [{ offset: 5, length: 0, text: 'B' }];
+			assertConverges('hello world', a, b, true, 'helloAB world');
+			assertConverges('hello world', a, b, false, 'helloBA world');
+		});
+
+		test('rebases sequences of several deltas', () => {
+			assertConverges(
+				'one two three',
+				[{ offset: 0, length: 3, text: '1' }, { offset: 2, length: 3, text: '2' }],
+				[{ offset: 8, length: 5, text: '3' }, { offset: 0, length: 0, text: '# ' }],
+				true,
+				'# 1 2 3'
+			);
+		});
+
+		test('returns null for overlapping deletes', () => {
+			const result = transformDeltas(
+				[{ offset: 0, length: 5, text: '' }],
+				[{ offset: 3, length: 5, text: '' }],
+				true
+			);
+			assert.strictEqual(result, null);
+		});
+
+		test('returns null for an insert inside a delete', () => {
+			const result = transformDeltas(
+				[{ offset: 0, length: 5, text: '' }],
+				[{ offset: 2, length: 0, text: 'x' }],
+				true
+			);
+			assert.strictEqual(result, null);
+		});
+	});
+
+	suite('composeDeltas', () => {
+		test('combines deltas into one covering the changed span', () => {
+			const text = 'hello world';
+			const deltas = [{ offset: 0, length: 5, text: 'jolly' }, { offset: 6, length: 5, text: 'there' }];
+			const composed = composeDeltas(text, deltas);
+			assert.deepStrictEqual(composed, { offset: 0, length: 11, text: 'jolly there' });
+			assert.strictEqual(apply(text, [composed!]), apply(text, deltas));
+		});
+
+		test('trims text the deltas leave unchanged', () => {
+			const composed = composeDeltas('hello world', [{ offset: 0, length: 11, text: 'hello there' }]);
+			assert.deepStrictEqual(composed, { offset: 6, length: 5, text: 'there' });
+		});
+
+		test('returns null when the deltas cancel out', () => {
+			const deltas = [{ offset: 5, length: 0, text: '!' }, { offset: 5, length: 1, text: '' }];
+			assert.strictEqual(composeDeltas('hello world', deltas), null);
+			assert.strictEqual(composeDeltas('hello world', []), null);
+		});
+	});
+});
@@ -1,16 +1,44 @@
-import { Application, Container, Graphics, FederatedPointerEvent, FederatedWheelEvent } from 'pixi.js';
+import { Application, Container, type FederatedPointerEvent } from 'pixi.js';
+import { BaseNode, type NodeBounds } from '../nodes/BaseNode';
 import { EditorNode } from '../nodes/EditorNode';
+import { NoteNode } from '../nodes/NoteNode';
+import { MediaNode } from '../nodes/MediaNode';
+import { MissingFileNode } from '../nodes/MissingFileNode';
 import { Grid } from './Grid';
 import { Viewport } from './Viewport';
 import { NodeLayoutManager } from './NodeLayoutManager';
 import { Toolbar } from '../ui/Toolbar';
+import { Minimap } from '../ui/Minimap';
+import { ConnectionManager } from '../features/ConnectionManager';
+import { SelectionManager } from '../features/SelectionManager';
+import { InputManager } from '../features/InputManager';
+import { HierarchyManager } from '../features/HierarchyManager';
 import { MessageClient } from '../core/MessageClient';
 import { AppStateManager } from '../core/AppStateManager';
-import { type PersistedLayoutHint } from '../../shared/types/messages';
-import { type PersistedViewportState } from '../../shared/types/canvasState';
+import { ModelManager } from '../core/ModelManager';
+import { type CanvasNavigationAction, type DocumentState, type FileRename, type MissingFileInfo, type NavigationOrigin, type PersistedLayoutHint } from '../../shared/types/messages';
+import { type PersistedAppState } from '../../shared/types/appState';
+import { type PersistedNodeState, type PersistedViewportState } from '../../shared/types/canvasState';
+import { type PersistedNoteState } from '../../shared/types/notesState';
+import { type PersistedMediaItemState } from '../../shared/types/mediaState';
+import { type PersistedConnectionState } from '../../shared/types/connectionsState';
+import { getMediaKindForFile } from '../../shared/MediaConfig';
+import { applyRename, isSameOrInside } from '../utils/PathUtils';
 
 import { MaskManager, MaskedHitArea } from '../core/MaskManager';
 
+type Point = { x: number; y: number };
+
+/** An animated pan/zoom in progress, stepped by the ticker. */
+interface ViewportAnimation {
+    fromCenter: Point;
+    toCenter: Point;
+    fromZoom: number;
+    toZoom: number;
+    elapsed: number;
+    duration: number;
+}
+
 export class CanvasManager {
     private app: Application;
     private stage: Container;
@@ -19,16 +47,22 @@ export class CanvasManager {
     private grid: Grid;
     private maskManager: MaskManager; // Centralized mask manager
     private layoutManager: NodeLayoutManager; // Manages node positioning and sizing
+    private connectionManager: ConnectionManager; // Arrows between nodes
+    private selectionManager: SelectionManager; // Multi-selection and group operations
+    private inputManager: InputManager; // Keyboard shortcuts, pan and zoom gestures
+    private hierarchyManager: HierarchyManager; // Call and type hierarchy trees
     private zoomLevel: number = 0;
-    private readonly ZOOM_SENSITIVITY: number = 0.004;
     private readonly ZOOM_BASE: number = 1.1;
-    private isDragging: boolean = false;
-    private lastPos: { x: number; y: number } | null = null;
+    /** Screen pixels left around nodes when zooming to fit them. */
+    private readonly FIT_PADDING: number = 60;
+    private viewportAnimation: ViewportAnimation | null = null;
 
     private messageClient: MessageClient | null = null;
     private toolbar: Toolbar | null = null;
-    private nodes: EditorNode[] = [];
+    private minimap: Minimap;
+    private nodes: BaseNode[] = [];
     private appStateManager: AppStateManager;
+    private autoConnectNavigation: boolean = true;
 
     constructor(app: Application, messageClient: MessageClient, appStateManager: AppStateManager) {
         this.messageClient = messageClient;
@@ -51,39 +85,91 @@ export class CanvasManager {
         this.contentContainer.addChild(this.grid);
         this.grid.update();
 
+        // Initialize input first so the features below can register their shortcuts
+        this.inputManager = new InputManager(this.stage, {
+            getNodes: () => this.nodes,
+            getFocusedNode: () => this.layoutManager.getFocusedNode(),
+            panBy: (dx, dy) => this.panBy(dx, dy),
+            zoomAt: (global, delta) => this.zoomAt(global, delta),
+            resetZoom: (global) => this.zoomAt(global, -this.zoomLevel),
+            commitViewport: () => this.commitViewport(),
+            focusNode: (node) => this.focusNode(node)
+        });
+        this.inputManager.on('backgroundPointerDown', (e: FederatedPointerEvent) => {
+            this.connectionManager.clearSelection();
+            // Shift+drag extends the selection with a marquee
+            if (!e.shiftKey) {
+                this.selectionManager.clear();
+            }
+        });
+        // Double-click on the background creates a new note at that spot
+        this.inputManager.on('backgroundDoubleClick', (e: FederatedPointerEvent) => {
+            this.createNoteAt(this.contentContainer.toLocal(e.global));
+        });
+
+        this.inputManager.registerKey({ key: '1', handler: () => this.zoomToFit() });
+        this.inputManager.registerKey({ key: '2', handler: () => this.zoomToSelection() });
+        this.inputManager.registerKey({ key: 'F', handler: () => this.focusNode() });
+        // Canvas undo; Monaco and notes keep their own text undo while focused
+        this.inputManager.registerKey({ key: 'Ctrl+Z', handler: () => this.undo() });
+        this.inputManager.registerKey({ key: 'Ctrl+Shift+Z', handler: () => this.redo() });
+        this.inputManager.registerKey({ key: 'Ctrl+Y', handler: () => this.redo() });
+        // Save the editor being typed in, or the focused one
+        this.inputManager.registerKey({ key: 'Ctrl+S', when: 'always', handler: () => this.saveFocusedEditor() });
+        // Save All works from inside editors too
+        this.inputManager.registerKey({ key: 'Ctrl+Alt+S', when: 'always', handler: () => { this.saveAll(); } });
+
+        // Initialize connections (drawn above the grid)
+        this.connectionManager = new ConnectionManager(this.app, this.contentContainer, this.appStateManager, messageClient, this.inputManager, () => this.nodes);
+
+        // Initialize call and type hierarchies (drawn as connections between editors)
+        this.hierarchyManager = new HierarchyManager(messageClient, this.connectionManager, {
+            findEditor: (file) => this.findEditor(file),
+            openEditor: (message, layout) => {
+                this.addEditor(message.file, message.content, message.uri, message.document, message.diagnostics, undefined, layout);
+                return this.findEditor(message.file);
+            }
+        });
+
+        // Initialize selection (marquee drawn above connections)
+        this.selectionManager = new SelectionManager(this.contentContainer, this.appStateManager, this.inputManager, {
+            getNodes: () => this.nodes,
+            persistNodeLayout: (node, patch) => this.persistNodeLayout(node, patch),
+            removeNode: (node) => this.removeNode(node),
+            confirmRemoval: (nodes) => this.confirmRemoval(nodes)
+        });
+
         // Initialize Toolbar
         this.createToolbar();
+        this.toolbar!.on('saveAll', () => this.saveAll());
+        this.toolbar!.on('clearNavigationTrail', () => this.connectionManager.clearNavigationConnections());
+        this.toolbar!.on('align', (mode) => this.selectionManager.align(mode));
+        this.toolbar!.on('deleteSelection', () => this.selectionManager.deleteSelection());
+        this.selectionManager.on('selectionChanged', (nodes: BaseNode[]) => this.toolbar!.setSelectionCount(nodes.length));
+
+        // Initialize Minimap
+        this.minimap = new Minimap(this.viewport, this.maskManager, {
+            getNodes: () => this.nodes,
+            centerOn: (world) => this.centerOn(world),
+            commitViewport: () => this.commitViewport()
+        });
+        this.stage.addChild(this.minimap);
+        this.minimap.updatePosition(this.app.screen.width, this.app.screen.height);
 
         // Enable interactivity on the stage for panning
         this.stage.eventMode = 'static';
         // Use MaskedHitArea so the stage respects the holes defined by providers (EditorNodes)
         this.stage.hitArea = new MaskedHitArea(this.maskManager, this.app.screen);
 
-        this.stage.on('pointerdown', this.onPointerDown.bind(this));
-        this.stage.on('pointerup', this.onPointerUp.bind(this));
-        this.stage.on('pointerupoutside', this.onPointerUp.bind(this));
-        this.stage.on('pointermove', this.onPointerMove.bind(this));
-        this.stage.on('wheel', this.onWheel.bind(this));
-
         // Initialize zoomLevel based on initial scale
         this.zoomLevel = Math.log(this.contentContainer.scale.x) / Math.log(this.ZOOM_BASE);
 
         // Update grid and mask relative to everything else. Priority 50 (INTERACTION) ensures it runs before most other things.
-        this.app.ticker.add(() => {
+        this.app.ticker.add((ticker) => {
+            this.stepViewportAnimation(ticker.deltaMS);
             this.updateGrid();
+            this.minimap.update();
         }, this, 50);
-
-        // Make a test bezier curve with a mouseover console log message
-        const testCurve = new Graphics()
-            .moveTo(100, 100)
-            .bezierCurveTo(200, 200, 300, 300, 400, 400)
-            .stroke({
-                width: 10, color: 0xff0000
-            });
-        testCurve.eventMode = 'static';
-        testCurve.interactive = true;
-        testCurve.on('pointerdown', () => console.log('Mouse down on test curve'));
-        this.contentContainer.addChild(testCurve);
     }
 
     private createToolbar() {
@@ -111,20 +197,34 @@ export class CanvasManager {
 
         this.updateGrid();
         this.updateToolbarPosition();
+        this.minimap.updatePosition(this.app.screen.width, this.app.screen.height);
     }
 
-    public addEditor(file: string, content: string, uri: string, diagnostics: any[] = [], selection?: any, layout?: PersistedLayoutHint) {
+    /**
+     * Opens a file in an EditorNode, or updates the node already showing it.
+     * @param document - State of the document `content` is from.
+     * @param reveal - Fly the viewport to the node (used when following the native editor).
+     */
+    public addEditor(file: string, content: string, uri: string, document: DocumentState | undefined, diagnostics: any[] = [], selection?: any, layout?: PersistedLayoutHint, origin?: NavigationOrigin, reveal: boolean = false) {
         // Find existing editor for this file
-        const existing = this.nodes.find(n => n instanceof EditorNode && n.getFilePath() === file) as EditorNode | undefined;
+        const existing = this.findEditor(file);
         if (existing) {
-            existing.updateContent(content);
+            existing.updateContent(content, document);
             existing.setDiagnostics(diagnostics);
             if (selection) {
-                existing.setSelection(selection);
+                if (reveal) {
+                    existing.mirrorSelection(selection);
+                } else {
+                    existing.setSelection(selection);
+                }
             }
             existing.bringToFront();
             // Update focus in layout manager
             this.layoutManager.setFocusedNode(file);
+            this.connectNavigation(origin, file, selection);
+            if (reveal) {
+                this.focusNode(existing);
+            }
             return;
         }
 
@@ -146,8 +246,12 @@ export class CanvasManager {
             initialWidth: calculatedSize.width,
             initialHeight: calculatedSize.height,
             initialDiagnostics: diagnostics,
-            initialSelection: selection
+            initialSelection: reveal ? undefined : selection,
+            document
         });
+        if (reveal && selection) {
+            editor.mirrorSelection(selection);
+        }
 
         this.contentContainer.addChild(editor);
 
@@ -160,22 +264,7 @@ export class CanvasManager {
             editor.setZIndex(layout.zIndex);
         }
 
-        // Register with layout manager and set as focused
-        this.layoutManager.registerNode(file, editor);
-
-        // Track close, position, and size changes for state persistence
-        editor.on('close', () => this.removeEditor(editor));
-        editor.on('moved', () => {
-            this.appStateManager.updateNode(file, { x: editor.x, y: editor.y });
-        });
-        editor.on('indexChanged', () => {
-            this.appStateManager.updateNode(file, { zIndex: editor.zIndex });
-        });
-        editor.on('resized', () => {
-            this.appStateManager.updateNode(file, { width: editor.width, height: editor.height });
-        });
-
-        this.nodes.push(editor);
+        this.trackNode(editor);
 
         // Register initial node state
         this.appStateManager.addNode({
@@ -188,43 +277,610 @@ export class CanvasManager {
             zIndex: editor.zIndex
         });
 
+        this.connectNavigation(origin, file, selection);
+        if (reveal) {
+            this.focusNode(editor);
+        }
+
         // MaskManager updates automatically or via Ticker
         this.maskManager.update();
     }
 
-    public updateEditorContent(file: string, content: string) {
-        const editor = this.nodes.find(n => n.getFilePath() === file);
-        if (editor) {
-            editor.updateContent(content);
+    /**
+     * Enables or disables connections generated from Go to Definition / Find References.
+     */
+    public setAutoConnectNavigation(enabled: boolean) {
+        this.autoConnectNavigation = enabled;
+    }
+
+    /**
+     * Draws a navigation connection from the line the navigation started on to
+     * the target range, if the option is on and the source editor is still open.
+     */
+    private connectNavigation(origin: NavigationOrigin | undefined, file: string, selection?: any) {
+        if (!origin || !this.autoConnectNavigation || origin.file === file || !this.findEditor(origin.file)) {
+            return;
+        }
+        this.connectionManager.addNavigationConnection(
+            { nodeId: origin.file, lineRange: { startLineNumber: origin.lineNumber, endLineNumber: origin.lineNumber } },
+            {
+                nodeId: file,
+                lineRange: selection ? { startLineNumber: selection.startLineNumber, endLineNumber: selection.endLineNumber } : undefined
+            }
+        );
+    }
+
+    /** Saves every file with unsaved changes. */
+    public async saveAll() {
+        const failed = await ModelManager.getInstance().saveAll();
+        for (const { uri, error } of failed) {
+            this.findEditor(uri.path)?.showSaveError(error);
+        }
+        if (failed.length > 0) {
+            this.messageClient!.send('alert', { message: `Failed to save ${failed.map(({ uri }) => uri.path).join(', ')}` });
+        }
+    }
+
+    /** @returns Whether there was an editor to save; if not, the key is left alone. */
+    private saveFocusedEditor(): boolean {
+        const focused = this.layoutManager.getFocusedNode();
+        const editor = this.nodes.find((n): n is EditorNode => n instanceof EditorNode && n.hasFocus())
+            ?? (focused instanceof EditorNode ? focused : undefined);
+        if (!editor) {
+            return false;
         }
+        editor.save();
+        return true;
+    }
+
+    private findEditor(file: string): EditorNode | undefined {
+        return this.nodes.find((n): n is EditorNode => n instanceof EditorNode && n.getFilePath() === file);
     }
 
     public setEditorDiagnostics(file: string, diagnostics: any[]) {
-        const editor = this.nodes.find(n => n.getFilePath() === file);
+        const editor = this.findEditor(file);
         if (editor) {
             editor.setDiagnostics(diagnostics);
         }
     }
 
+    /**
+     * Mirrors the native editor's selection in the file's EditorNode, if open.
+     */
+    public mirrorEditorSelection(file: string, selection: any) {
+        const editor = this.findEditor(file);
+        if (editor) {
+            editor.mirrorSelection(selection);
+        }
+    }
+
     public setEditorBreakpoints(file: string, breakpoints: number[]) {
-        const editor = this.nodes.find(n => n.getFilePath() === file);
+        const editor = this.findEditor(file);
         if (editor) {
             editor.setBreakpoints(breakpoints);
         }
     }
 
-    public removeEditor(editor: EditorNode) {
-        const index = this.nodes.indexOf(editor);
-        if (index !== -1) {
-            // Unregister from layout manager and state
-            this.layoutManager.unregisterNode(editor.getFilePath());
-            this.appStateManager.removeNode(editor.getFilePath());
+    /**
+     * Registers a freshly created node with the layout manager (making it the
+     * focused node) and persists its position, size and z-order changes.
+     */
+    private trackNode(node: BaseNode) {
+        this.layoutManager.registerNode(node.getNodeId(), node);
+        this.connectionManager.attachNode(node);
+        this.selectionManager.attachNode(node);
+        this.hierarchyManager.attachNode(node);
 
-            this.nodes.splice(index, 1);
-            this.contentContainer.removeChild(editor);
-            editor.destroy();
-            this.updateGrid();
+        node.on('close', () => this.removeNode(node));
+        node.on('moved', () => {
+            // Group drags are written in one batch when the drag ends
+            if (!this.selectionManager.isGroupDragging) {
+                this.persistNodeLayout(node, { x: node.x, y: node.y });
+            }
+        });
+        node.on('indexChanged', () => {
+            this.persistNodeLayout(node, { zIndex: node.zIndex });
+        });
+        node.on('resized', () => {
+            this.persistNodeLayout(node, { width: node.width, height: node.height });
+        });
+
+        this.nodes.push(node);
+    }
+
+    /**
+     * Writes a layout change to the app state slice that owns the node type.
+     */
+    private persistNodeLayout(node: BaseNode, patch: Partial<NodeBounds & { zIndex: number }>) {
+        switch (node.nodeType) {
+            case 'editor':
+                this.appStateManager.updateNode(node.getNodeId(), patch);
+                break;
+            case 'note':
+                this.appStateManager.updateNote(node.getNodeId(), patch);
+                break;
+            case 'media':
+                this.appStateManager.updateMediaItem(node.getNodeId(), patch);
+                break;
+        }
+    }
+
+    /**
+     * Removes a node of any type from the canvas and from the persisted state.
+     */
+    public removeNode(node: BaseNode) {
+        if (!this.nodes.includes(node)) {
+            return;
+        }
+
+        // Unregister from state
+        const nodeId = node.getNodeId();
+        this.connectionManager.removeConnectionsForNode(nodeId);
+        this.hierarchyManager.detachNode(nodeId);
+        switch (node.nodeType) {
+            case 'editor':
+                this.appStateManager.removeNode(nodeId);
+                break;
+            case 'note':
+                this.appStateManager.removeNote(nodeId);
+                break;
+            case 'media':
+                this.appStateManager.removeMediaItem(nodeId);
+                break;
+        }
+
+        this.destroyNode(node);
+    }
+
+    /**
+     * Takes a node off the canvas without touching the state or its
+     * connections, e.g. to replace it with a node for the same entry.
+     */
+    private destroyNode(node: BaseNode) {
+        const index = this.nodes.indexOf(node);
+        if (index === -1) {
+            return;
+        }
+        this.layoutManager.unregisterNode(node.getNodeId());
+        this.selectionManager.detachNode(node);
+        this.nodes.splice(index, 1);
+        this.contentContainer.removeChild(node);
+        node.destroy();
+        this.updateGrid();
+    }
+
+    private hasNode(nodeType: BaseNode['nodeType'], id: string): boolean {
+        return this.nodes.some(n => n.nodeType === nodeType && n.getNodeId() === id);
+    }
+
+    private getLayout(node: BaseNode): PersistedLayoutHint {
+        return { x: node.x, y: node.y, width: node.width, height: node.height, zIndex: node.zIndex };
+    }
+
+    // -------------------------------------------------------------------------
+    // Renamed and missing files
+    // -------------------------------------------------------------------------
+
+    /**
+     * Adds a placeholder for an editor or media node whose file is missing.
+     * It keeps the node's state entry (and connections) until the file is
+     * relocated or the placeholder removed.
+     */
+    public addMissingFile(info: MissingFileInfo) {
+        const { layout } = info;
+        const placeholder = new MissingFileNode(info.nodeType, info.id, info.filePath, this.maskManager, layout.width, layout.height);
+
+        this.contentContainer.addChild(placeholder);
+        placeholder.x = layout.x;
+        placeholder.y = layout.y;
+        placeholder.setZIndex(layout.zIndex);
+
+        this.trackNode(placeholder);
+        placeholder.on('relocate', () => this.relocateMissingFile(placeholder));
+
+        if (info.nodeType === 'editor') {
+            this.appStateManager.addNode({ filePath: info.filePath, uri: info.uri ?? '', ...layout });
+        } else {
+            this.appStateManager.addMediaItem({ id: info.id, filePath: info.filePath, ...layout });
+        }
+
+        this.maskManager.update();
+    }
+
+    /**
+     * Replaces the nodes showing deleted files (or files inside deleted
+     * folders) with placeholders.
+     */
+    public markFilesMissing(paths: string[]) {
+        for (const node of [...this.nodes]) {
+            if (!(node instanceof EditorNode || node instanceof MediaNode)) {
+                continue;
+            }
+            const filePath = node.getFilePath();
+            if (!paths.some(p => isSameOrInside(filePath, p))) {
+                continue;
+            }
+            const info: MissingFileInfo = {
+                nodeType: node.nodeType,
+                id: node.getNodeId(),
+                filePath,
+                uri: this.appStateManager.getState().canvas.nodes.find(n => n.filePath === filePath)?.uri,
+                layout: this.getLayout(node)
+            };
+            // The state entry stays as it is; only the view changes
+            this.appStateManager.withoutRecording(() => {
+                this.destroyNode(node);
+                this.addMissingFile(info);
+            });
+        }
+    }
+
+    /**
+     * Points the nodes showing renamed files (or files inside renamed
+     * folders) at the new paths, keeping their layout and connections.
+     */
+    public async renameFiles(renames: FileRename[]) {
+        for (const node of [...this.nodes]) {
+            if (!(node instanceof EditorNode || node instanceof MediaNode || node instanceof MissingFileNode)) {
+                continue;
+            }
+            const filePath = node.getFilePath();
+            for (const rename of renames) {
+                const newPath = applyRename(filePath, rename.oldPath, rename.newPath);
+                if (newPath) {
+                    await this.retargetNode(node, newPath);
+                    break;
+                }
+            }
+        }
+    }
+
+    /** Lets the user pick the new location of a missing file. */
+    private async relocateMissingFile(placeholder: MissingFileNode) {
+        const newPath: string | null = await this.messageClient!.sendRequest('pickFile', {
+            defaultPath: placeholder.getFilePath(),
+            openLabel: 'Relocate'
+        });
+        if (!newPath || !this.nodes.includes(placeholder)) {
+            return;
+        }
+        if (placeholder.nodeType === 'media' && !getMediaKindForFile(newPath)) {
+            this.messageClient!.send('alert', { message: `'${newPath}' is not a supported image, SVG or PDF file.` });
+            return;
+        }
+        await this.retargetNode(placeholder, newPath);
+    }
+
+    /**
+     * Moves an editor or media node (or its placeholder) to another file:
+     * updates its state entry and connections, then swaps in a node for the
+     * new file at the same layout.
+     */
+    private async retargetNode(node: EditorNode | MediaNode | MissingFileNode, newPath: string) {
+        const layout = this.getLayout(node);
+
+        if (node.nodeType === 'media') {
+            const id = node.getNodeId();
+            this.appStateManager.updateMediaItem(id, { filePath: newPath });
+            this.appStateManager.withoutRecording(() => {
+                this.destroyNode(node);
+                this.addMedia(newPath, { id, filePath: newPath, ...layout });
+            });
+            return;
+        }
+
+        const oldPath = node.getNodeId();
+        if (this.hasNode('editor', newPath)) {
+            // The file is already on the canvas; drop the duplicate
+            this.removeNode(node);
+            return;
+        }
+        const message = await this.messageClient!.sendRequest('getEditorContent', { file: newPath });
+        if (!message || !this.nodes.includes(node)) {
+            return;
+        }
+        this.appStateManager.batch(() => {
+            this.appStateManager.renameNode(oldPath, newPath, message.uri);
+            this.connectionManager.retargetNode(oldPath, newPath);
+        });
+        this.appStateManager.withoutRecording(() => {
+            this.destroyNode(node);
+            this.addEditor(newPath, message.content, message.uri, message.document, message.diagnostics, undefined, layout);
+        });
+    }
+
+    /**
+     * Adds a markdown note to the canvas.  Used both for restoring persisted
+     * notes and for notes created by double-clicking the background.
+     */
+    public addNote(state: PersistedNoteState, startEditing: boolean = false): NoteNode {
+        const note = new NoteNode(state.id, state.content, this.maskManager, {
+            initialWidth: state.width,
+            initialHeight: state.height,
+            startEditing
+        });
+
+        this.contentContainer.addChild(note);
+        note.x = state.x;
+        note.y = state.y;
+        note.setZIndex(state.zIndex);
+
+        this.trackNode(note);
+        note.on('contentChanged', (content: string) => {
+            this.appStateManager.updateNote(state.id, { content });
+        });
+
+        this.appStateManager.addNote({
+            ...state,
+            x: note.x,
+            y: note.y,
+            zIndex: note.zIndex
+        });
+
+        this.maskManager.update();
+        return note;
+    }
+
+    /**
+     * Creates an empty note centered on the given world position and opens it
+     * for editing.
+     */
+    public createNoteAt(position: { x: number; y: number }): NoteNode {
+        const width = 320;
+        const height = 240;
+        return this.addNote({
+            id: crypto.randomUUID(),
+            content: '',
+            x: position.x - width / 2,
+            y: position.y - height / 2,
+            width,
+            height,
+            zIndex: BaseNode.topZIndex + 1
+        }, true);
+    }
+
+    /**
+     * Adds an image, SVG or PDF to the canvas.  When `layout` is given (restoring
+     * a persisted item) it is used as-is; otherwise an already-open node for the
+     * same file is brought to front, or a new node is placed next to the
+     * focused node.
+     */
+    public addMedia(file: string, layout?: PersistedMediaItemState) {
+        const kind = getMediaKindForFile(file);
+        if (!kind) {
+            console.warn(`CanvasManager: '${file}' is not a supported media file.`);
+            return;
         }
+
+        if (!layout) {
+            const existing = this.nodes.find(n => n instanceof MediaNode && n.getFilePath() === file);
+            if (existing) {
+                existing.bringToFront();
+                return;
+            }
+        }
+
+        const id = layout?.id ?? crypto.randomUUID();
+        const size = layout
+            ? { width: layout.width, height: layout.height }
+            : { width: 480, height: 360 };
+        const viewportCenter = this.viewport.getCenter();
+        const position = layout
+            ? { x: layout.x, y: layout.y }
+            : this.layoutManager.calculatePositionForNewNode(size, { x: viewportCenter.x, y: viewportCenter.y });
+
+        const mediaNode = new MediaNode(id, file, kind, this.messageClient!, this.maskManager, {
+            initialWidth: size.width,
+            // Let new nodes size themselves to the media's aspect ratio
+            initialHeight: layout?.height
+        });
+
+        this.contentContainer.addChild(mediaNode);
+        mediaNode.x = position.x;
+        mediaNode.y = position.y;
+
+        if (layout) {
+            mediaNode.setZIndex(layout.zIndex);
+        }
+
+        this.trackNode(mediaNode);
+
+        this.appStateManager.addMediaItem({
+            id,
+            filePath: file,
+            x: mediaNode.x,
+            y: mediaNode.y,
+            width: mediaNode.width,
+            height: mediaNode.height,
+            zIndex: mediaNode.zIndex
+        });
+
+        this.maskManager.update();
+    }
+
+    /**
+     * Restores persisted connections.  Must run after the nodes they link are restored.
+     */
+    public restoreConnections(connections: PersistedConnectionState[]) {
+        this.connectionManager.restoreConnections(connections);
+    }
+
+    /**
+     * Reverts the last canvas change (adding, closing, moving, resizing or
+     * reordering nodes, connections, viewport jumps).
+     * @returns false if there is nothing to undo.
+     */
+    public undo(): boolean {
+        const previous = this.appStateManager.getState();
+        if (!this.appStateManager.undo()) {
+            return false;
+        }
+        this.applyHistoryStep(previous, () => this.appStateManager.redo());
+        return true;
+    }
+
+    /**
+     * Reapplies the last undone canvas change.
+     * @returns false if there is nothing to redo.
+     */
+    public redo(): boolean {
+        const previous = this.appStateManager.getState();
+        if (!this.appStateManager.redo()) {
+            return false;
+        }
+        this.applyHistoryStep(previous, () => this.appStateManager.undo());
+        return true;
+    }
+
+    /**
+     * Applies the state undo/redo stepped to.  If that closes editors with
+     * unsaved changes, the user is asked first; cancelling steps back with
+     * `revert`.
+     */
+    private applyHistoryStep(previous: PersistedAppState, revert: () => boolean) {
+        const state = this.appStateManager.getState();
+        const removed = this.nodes.filter(node => !this.findPersistedLayout(state, node));
+        if (!removed.some(node => node instanceof EditorNode && node.isDirty())) {
+            this.applyState(previous, state);
+            return;
+        }
+        this.confirmRemoval(removed).then(confirmed => {
+            if (confirmed) {
+                this.applyState(previous, this.appStateManager.getState());
+            } else {
+                revert();
+            }
+        });
+    }
+
+    /**
+     * Asks whether to save or discard the unsaved changes of the editors
+     * among `nodes`, the way closing a single editor does.
+     * @returns false if the user cancelled or saving failed.
+     */
+    private async confirmRemoval(nodes: BaseNode[]): Promise<boolean> {
+        const dirty = nodes.filter((n): n is EditorNode => n instanceof EditorNode && n.isDirty());
+        if (dirty.length === 0) {
+            return true;
+        }
+        const files = dirty.map(editor => editor.getFilePath());
+        const choice = await this.messageClient!.sendRequest('confirmUnsavedChanges', { files });
+        if (choice === 'save') {
+            const saved = await Promise.all(dirty.map(editor => editor.save()));
+            return saved.every(Boolean);
+        }
+        if (choice === 'discard') {
+            await this.messageClient!.sendRequest('revertFiles', { files });
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Brings the scene in line with a state restored by undo/redo.  State
+     * writes are suppressed meanwhile, since the state is already correct.
+     */
+    private applyState(previous: PersistedAppState, state: PersistedAppState) {
+        this.appStateManager.withoutRecording(() => {
+            for (const node of [...this.nodes]) {
+                const layout = this.findPersistedLayout(state, node);
+                if (!layout) {
+                    this.removeNode(node);
+                    continue;
+                }
+                if (node.x !== layout.x || node.y !== layout.y) {
+                    node.moveTo(layout.x, layout.y);
+                }
+                if (node.width !== layout.width || node.height !== layout.height) {
+                    node.resize(layout.width, layout.height);
+                }
+                node.setZIndex(layout.zIndex);
+                if (node instanceof NoteNode && 'content' in layout && node.getContent() !== layout.content) {
+                    node.setContent(layout.content);
+                }
+            }
+
+            for (const note of state.notes.notes) {
+                if (!this.hasNode('note', note.id)) {
+                    this.addNote(note);
+                }
+            }
+            for (const item of state.media.items) {
+                if (!this.hasNode('media', item.id)) {
+                    this.addMedia(item.filePath, item);
+                }
+            }
+            for (const node of state.canvas.nodes) {
+                if (!this.hasNode('editor', node.filePath)) {
+                    this.restoreEditor(node);
+                }
+            }
+            this.connectionManager.syncConnections(state.connections.connections);
+
+            const from = previous.canvas.viewport;
+            const to = state.canvas.viewport;
+            if (from.panX !== to.panX || from.panY !== to.panY || from.zoom !== to.zoom) {
+                this.setViewport(to);
+            }
+        });
+        this.maskManager.update();
+    }
+
+    /** Returns the state entry of a node in the slice that owns its type. */
+    private findPersistedLayout(state: PersistedAppState, node: BaseNode): PersistedLayoutHint | PersistedNoteState | undefined {
+        const id = node.getNodeId();
+        switch (node.nodeType) {
+            case 'editor':
+                return state.canvas.nodes.find(n => n.filePath === id);
+            case 'note':
+                return state.notes.notes.find(n => n.id === id);
+            case 'media':
+                return state.media.items.find(m => m.id === id);
+        }
+    }
+
+    /**
+     * Reopens an editor brought back by undo/redo at its saved layout.  The
+     * document's current text comes from the extension, so this finishes
+     * asynchronously.
+     */
+    private async restoreEditor(node: PersistedNodeState) {
+        const message = await this.messageClient!.sendRequest('getEditorContent', { file: node.filePath });
+        // Undo/redo may have moved on while the document was loading
+        const current = this.appStateManager.getState().canvas.nodes.find(n => n.filePath === node.filePath);
+        if (!current || this.hasNode('editor', node.filePath)) {
+            return;
+        }
+        this.appStateManager.withoutRecording(() => {
+            if (message) {
+                this.addEditor(current.filePath, message.content, message.uri, message.document, message.diagnostics, undefined, current);
+            } else {
+                const { filePath, uri, ...layout } = current;
+                this.addMissingFile({ nodeType: 'editor', id: filePath, filePath, uri, layout });
+            }
+            this.connectionManager.syncConnections(this.appStateManager.getState().connections.connections);
+        });
+    }
+
+    /**
+     * Get the SelectionManager instance for external access
+     */
+    public getSelectionManager(): SelectionManager {
+        return this.selectionManager;
+    }
+
+    /**
+     * Get the InputManager instance for external access
+     */
+    public getInputManager(): InputManager {
+        return this.inputManager;
+    }
+
+    /**
+     * Get the ConnectionManager instance for external access
+     */
+    public getConnectionManager(): ConnectionManager {
+        return this.connectionManager;
     }
 
     /**
@@ -239,6 +895,7 @@ export class CanvasManager {
      * Called by App.ts when the backend sends a `restoreViewport` message.
      */
     public setViewport(viewport: PersistedViewportState): void {
+        this.viewportAnimation = null;
         this.contentContainer.x = viewport.panX;
         this.contentContainer.y = viewport.panY;
         this.zoomLevel = viewport.zoom;
@@ -247,69 +904,161 @@ export class CanvasManager {
         this.updateGrid();
     }
 
-    private onPointerDown(e: FederatedPointerEvent) {
-        console.log('CanvasManager: onPointerDown', e.global);
-        if (e.target !== this.stage) {
-            console.log('CanvasManager: Clicked on something else:', e.target.constructor.name);
-            return; // Only drag if clicking on background
-        }
-        this.isDragging = true;
-        this.lastPos = { x: e.global.x, y: e.global.y };
+    private panBy(dx: number, dy: number) {
+        this.viewportAnimation = null;
+        this.contentContainer.x += dx;
+        this.contentContainer.y += dy;
+        this.updateGrid();
+    }
+
+    /**
+     * Changes the zoom level by `delta`, keeping the world position under
+     * `global` (screen space) in place.
+     */
+    private zoomAt(global: { x: number; y: number }, delta: number) {
+        this.viewportAnimation = null;
+
+        // Get the world position under the anchor before zoom
+        const worldPos = this.contentContainer.toLocal(global);
+
+        // Clamp zoom level to reasonable bounds
+        this.zoomLevel = Math.max(-30, Math.min(this.zoomLevel + delta, 10));
+
+        const newScale = Math.pow(this.ZOOM_BASE, this.zoomLevel);
+        this.contentContainer.scale.set(newScale);
+
+        // Adjust position so the anchor stays over the same world position
+        this.contentContainer.x = global.x - worldPos.x * newScale;
+        this.contentContainer.y = global.y - worldPos.y * newScale;
+
+        this.updateGrid();
     }
 
-    private onPointerUp() {
-        console.log('CanvasManager: onPointerUp');
-        this.isDragging = false;
-        this.lastPos = null;
-        // Persist viewport after a pan gesture ends.
+    /**
+     * Persists the current pan/zoom.  Called once a gesture is over rather
+     * than on every frame of it.
+     * @param undoable - Record it as an undo step (animated jumps only).
+     */
+    private commitViewport(undoable: boolean = false) {
         this.appStateManager.updateViewport({
             panX: this.contentContainer.x,
             panY: this.contentContainer.y,
             zoom: this.zoomLevel
-        });
+        }, undoable);
+    }
+
+    /**
+     * Runs a viewport command sent by the extension (see `CanvasNavigationAction`).
+     */
+    public navigate(action: CanvasNavigationAction) {
+        switch (action) {
+            case 'zoomToFit':
+                this.zoomToFit();
+                break;
+            case 'zoomToSelection':
+                this.zoomToSelection();
+                break;
+            case 'focusNode':
+                this.focusNode();
+                break;
+        }
     }
 
-    private onPointerMove(e: FederatedPointerEvent) {
-        if (this.isDragging && this.lastPos) {
-            // console.log('CanvasManager: onPointerMove', e.global); // Too spammy
-            const newPos = { x: e.global.x, y: e.global.y };
-            const dx = newPos.x - this.lastPos.x;
-            const dy = newPos.y - this.lastPos.y;
+    /** Animates the viewport so every node is on screen. */
+    public zoomToFit(): boolean {
+        return this.fitNodes(this.nodes);
+    }
 
-            this.contentContainer.x += dx;
-            this.contentContainer.y += dy;
+    /** Animates the viewport so the selected nodes are on screen. */
+    public zoomToSelection(): boolean {
+        return this.fitNodes(this.selectionManager.getSelection());
+    }
 
-            this.lastPos = newPos;
+    /**
+     * Brings a node to front, makes it the focused node and flies the
+     * viewport to it.  Defaults to the currently focused node.
+     */
+    public focusNode(node: BaseNode | null = this.layoutManager.getFocusedNode()): boolean {
+        if (!node) {
+            return false;
         }
+        node.bringToFront();
+        this.layoutManager.setFocusedNode(node.getNodeId());
+        return this.fitNodes([node]);
     }
 
-    private onWheel(e: FederatedWheelEvent) {
-        // Get the mouse position in world coordinates before zoom
-        const worldPos = this.contentContainer.toLocal(e.global);
+    /**
+     * Animates to the pan/zoom that fits the bounding box of `nodes` on
+     * screen.  Never zooms in past 100%, so a small node isn't blown up.
+     * @returns false if there is nothing to fit.
+     */
+    private fitNodes(nodes: BaseNode[]): boolean {
+        if (nodes.length === 0) {
+            return false;
+        }
+        const left = Math.min(...nodes.map(n => n.x));
+        const top = Math.min(...nodes.map(n => n.y));
+        const right = Math.max(...nodes.map(n => n.x + n.width));
+        const bottom = Math.max(...nodes.map(n => n.y + n.height));
 
-        // Update zoom level
-        const delta = -e.deltaY * this.ZOOM_SENSITIVITY;
-        this.zoomLevel += delta;
+        const availableWidth = Math.max(this.app.screen.width - this.FIT_PADDING * 2, 1);
+        const availableHeight = Math.max(this.app.screen.height - this.FIT_PADDING * 2, 1);
+        const scale = Math.min(availableWidth / (right - left), availableHeight / (bottom - top));
+        const zoom = Math.max(-30, Math.min(Math.log(scale) / Math.log(this.ZOOM_BASE), 0));
 
-        // Clamp zoom level to reasonable bounds
-        this.zoomLevel = Math.max(-30, Math.min(this.zoomLevel, 10));
+        this.animateViewportTo({ x: (left + right) / 2, y: (top + bottom) / 2 }, zoom);
+        return true;
+    }
 
-        const newScale = Math.pow(this.ZOOM_BASE, this.zoomLevel);
+    /**
+     * Smoothly pans/zooms so `center` (world space) ends up in the middle of
+     * the screen at `zoomLevel`.  Any manual pan or zoom cancels the animation.
+     */
+    private animateViewportTo(center: Point, zoomLevel: number, duration: number = 350) {
+        this.viewportAnimation = {
+            fromCenter: this.viewport.getCenter(),
+            toCenter: center,
+            fromZoom: this.zoomLevel,
+            toZoom: zoomLevel,
+            elapsed: 0,
+            duration
+        };
+    }
 
-        // Apply new scale
-        this.contentContainer.scale.set(newScale);
+    private stepViewportAnimation(deltaMS: number) {
+        const animation = this.viewportAnimation;
+        if (!animation) {
+            return;
+        }
+        animation.elapsed += deltaMS;
+        const t = Math.min(animation.elapsed / animation.duration, 1);
+        // Ease in-out cubic
+        const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 
-        // Adjust position so the mouse cursor stays over the same world position
-        this.contentContainer.x = e.global.x - worldPos.x * newScale;
-        this.contentContainer.y = e.global.y - worldPos.y * newScale;
+        // Interpolate the zoom level (not the scale) so zooming feels linear
+        this.zoomLevel = animation.fromZoom + (animation.toZoom - animation.fromZoom) * eased;
+        const scale = Math.pow(this.ZOOM_BASE, this.zoomLevel);
+        const centerX = animation.fromCenter.x + (animation.toCenter.x - animation.fromCenter.x) * eased;
+        const centerY = animation.fromCenter.y + (animation.toCenter.y - animation.fromCenter.y) * eased;
+        this.contentContainer.scale.set(scale);
+        this.contentContainer.x = this.app.screen.width / 2 - centerX * scale;
+        this.contentContainer.y = this.app.screen.height / 2 - centerY * scale;
 
-        // Persist updated viewport after zoom.
-        this.appStateManager.updateViewport({
-            panX: this.contentContainer.x,
-            panY: this.contentContainer.y,
-            zoom: this.zoomLevel
-        });
+        if (t === 1) {
+            this.viewportAnimation = null;
+            this.commitViewport(true);
+        }
+    }
 
+    /**
+     * Pans so the given world position is at the center of the screen,
+     * keeping the current zoom.
+     */
+    private centerOn(world: { x: number; y: number }) {
+        this.viewportAnimation = null;
+        const scale = this.contentContainer.scale.x;
+        this.contentContainer.x = this.app.screen.width / 2 - world.x * scale;
+        this.contentContainer.y = this.app.screen.height / 2 - world.y * scale;
         this.updateGrid();
     }
 
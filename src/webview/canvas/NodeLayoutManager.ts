@@ -1,4 +1,4 @@
-import { EditorNode } from '../nodes/EditorNode';
+import { BaseNode } from '../nodes/BaseNode';
 
 /**
  * Sizing configuration for editor nodes based on content
@@ -51,7 +51,12 @@ export interface CalculatedPosition {
 }
 
 /**
- * NodeLayoutManager - Manages intelligent sizing and positioning of editor nodes.
+ * Where the children of a node go in a tree (see `calculateChildPositions`)
+ */
+export type ChildPlacement = 'right' | 'above' | 'below';
+
+/**
+ * NodeLayoutManager - Manages intelligent sizing and positioning of canvas nodes.
  *
  * This manager is designed to be extensible for future persistence features.
  * It tracks all node layouts and provides utilities for calculating optimal
@@ -60,11 +65,11 @@ export interface CalculatedPosition {
 export class NodeLayoutManager {
     private static instance: NodeLayoutManager | null = null;
 
-    /** Currently tracked nodes */
-    private nodes: Map<string, EditorNode> = new Map();
+    /** Currently tracked nodes, keyed by node id */
+    private nodes: Map<string, BaseNode> = new Map();
 
     /** The currently focused/active node (used for relative positioning) */
-    private focusedNodePath: string | null = null;
+    private focusedNodeId: string | null = null;
 
     /** Default sizing configuration */
     private sizingConfig: NodeSizingConfig = {
@@ -97,39 +102,39 @@ export class NodeLayoutManager {
     /**
      * Register a node with the layout manager
      */
-    public registerNode(filePath: string, node: EditorNode): void {
-        this.nodes.set(filePath, node);
+    public registerNode(nodeId: string, node: BaseNode): void {
+        this.nodes.set(nodeId, node);
         // Auto-set as focused when registered (newest node gets focus)
-        this.focusedNodePath = filePath;
+        this.focusedNodeId = nodeId;
     }
 
     /**
      * Unregister a node from the layout manager
      */
-    public unregisterNode(filePath: string): void {
-        this.nodes.delete(filePath);
-        if (this.focusedNodePath === filePath) {
+    public unregisterNode(nodeId: string): void {
+        this.nodes.delete(nodeId);
+        if (this.focusedNodeId === nodeId) {
             // Set focus to another node if available
             const remaining = Array.from(this.nodes.keys());
-            this.focusedNodePath = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+            this.focusedNodeId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
         }
     }
 
     /**
      * Set the currently focused node
      */
-    public setFocusedNode(filePath: string): void {
-        if (this.nodes.has(filePath)) {
-            this.focusedNodePath = filePath;
+    public setFocusedNode(nodeId: string): void {
+        if (this.nodes.has(nodeId)) {
+            this.focusedNodeId = nodeId;
         }
     }
 
     /**
      * Get the currently focused node
      */
-    public getFocusedNode(): EditorNode | null {
-        if (this.focusedNodePath) {
-            return this.nodes.get(this.focusedNodePath) || null;
+    public getFocusedNode(): BaseNode | null {
+        if (this.focusedNodeId) {
+            return this.nodes.get(this.focusedNodeId) || null;
         }
         return null;
     }
@@ -137,7 +142,7 @@ export class NodeLayoutManager {
     /**
      * Get all registered nodes
      */
-    public getNodes(): Map<string, EditorNode> {
+    public getNodes(): Map<string, BaseNode> {
         return this.nodes;
     }
 
@@ -241,12 +246,67 @@ export class NodeLayoutManager {
         };
     }
 
+    /**
+     * Calculate positions for the children of a node in a tree.  With
+     * `right` the children form a column to the right of the parent,
+     * vertically centered on it; with `above`/`below` they form a row above
+     * or below it, horizontally centered.  The group is pushed further in
+     * that direction past any nodes in the way.
+     */
+    public calculateChildPositions(
+        parent: BaseNode,
+        childSizes: CalculatedSize[],
+        placement: ChildPlacement = 'right'
+    ): CalculatedPosition[] {
+        if (childSizes.length === 0) {
+            return [];
+        }
+
+        const gaps = this.nodeSpacing * (childSizes.length - 1);
+        const groupSize = placement === 'right'
+            ? {
+                width: Math.max(...childSizes.map(size => size.width)),
+                height: childSizes.reduce((sum, size) => sum + size.height, 0) + gaps
+            }
+            : {
+                width: childSizes.reduce((sum, size) => sum + size.width, 0) + gaps,
+                height: Math.max(...childSizes.map(size => size.height))
+            };
+
+        // Leave room for the edges between the parent and its children
+        const edgeSpace = this.nodeSpacing * 2;
+        let start: CalculatedPosition;
+        switch (placement) {
+            case 'right':
+                start = { x: parent.x + parent.width + edgeSpace, y: parent.y + parent.height / 2 - groupSize.height / 2 };
+                break;
+            case 'above':
+                start = { x: parent.x + parent.width / 2 - groupSize.width / 2, y: parent.y - edgeSpace - groupSize.height };
+                break;
+            case 'below':
+                start = { x: parent.x + parent.width / 2 - groupSize.width / 2, y: parent.y + parent.height + edgeSpace };
+                break;
+        }
+        const group = this.adjustPositionForCollisions(start, groupSize, placement);
+
+        // Rows are aligned on the edge facing the parent
+        let offset = 0;
+        return childSizes.map(size => {
+            const position = placement === 'right'
+                ? { x: group.x, y: group.y + offset }
+                : { x: group.x + offset, y: placement === 'above' ? group.y + groupSize.height - size.height : group.y };
+            offset += (placement === 'right' ? size.height : size.width) + this.nodeSpacing;
+            return position;
+        });
+    }
+
     /**
      * Adjust position to avoid collisions with existing nodes
      */
     private adjustPositionForCollisions(
         position: CalculatedPosition,
-        size: CalculatedSize
+        size: CalculatedSize,
+        push: ChildPlacement = 'right'
     ): CalculatedPosition {
         let adjustedPos = { ...position };
         const maxAttempts = 10;
@@ -258,8 +318,18 @@ export class NodeLayoutManager {
                 break;
             }
 
-            // Move to the right of the colliding node
-            adjustedPos.x = collision.x + collision.width + this.nodeSpacing;
+            // Move past the colliding node
+            switch (push) {
+                case 'right':
+                    adjustedPos.x = collision.x + collision.width + this.nodeSpacing;
+                    break;
+                case 'above':
+                    adjustedPos.y = collision.y - size.height - this.nodeSpacing;
+                    break;
+                case 'below':
+                    adjustedPos.y = collision.y + collision.height + this.nodeSpacing;
+                    break;
+            }
             attempts++;
         }
 
@@ -313,9 +383,9 @@ export class NodeLayoutManager {
     public getAllLayoutInfo(): NodeLayoutInfo[] {
         const layouts: NodeLayoutInfo[] = [];
 
-        for (const [filePath, node] of this.nodes) {
+        for (const [nodeId, node] of this.nodes) {
             layouts.push({
-                filePath,
+                filePath: nodeId,
                 position: { x: node.x, y: node.y },
                 size: { width: node.width, height: node.height },
                 zIndex: node.zIndex
@@ -328,14 +398,14 @@ export class NodeLayoutManager {
     /**
      * Get layout info for a specific node
      */
-    public getNodeLayoutInfo(filePath: string): NodeLayoutInfo | null {
-        const node = this.nodes.get(filePath);
+    public getNodeLayoutInfo(nodeId: string): NodeLayoutInfo | null {
+        const node = this.nodes.get(nodeId);
         if (!node) {
             return null;
         }
 
         return {
-            filePath,
+            filePath: nodeId,
             position: { x: node.x, y: node.y },
             size: { width: node.width, height: node.height },
             zIndex: node.zIndex
@@ -368,6 +438,6 @@ export class NodeLayoutManager {
      */
     public clear(): void {
         this.nodes.clear();
-        this.focusedNodePath = null;
+        this.focusedNodeId = null;
     }
 }
@@ -4,6 +4,7 @@ import { MessageClient } from '../core/MessageClient';
 import { MaskManager } from './MaskManager';
 import { ModelManager } from './ModelManager';
 import { LSPBridge } from './LSPBridge';
+import { EditorTheme } from './EditorTheme';
 import { AppStateManager } from './AppStateManager';
 
 class App {
@@ -73,8 +74,9 @@ class App {
         // Initialize ModelManager (must be before LSPBridge and CanvasManager)
         this.modelManager = ModelManager.initialize(this.messageClient);
 
-        // Initialize LSP Bridge
+        // Initialize LSP Bridge and the editor theme coloring its semantic tokens
         new LSPBridge(this.messageClient);
+        EditorTheme.define();
 
         this.canvasManager = new CanvasManager(this.app, this.messageClient, this.appStateManager);
 
@@ -91,21 +93,72 @@ class App {
             const message = event.data;
 
             switch (message.command) {
+                case 'updateConfiguration':
+                    EditorTheme.apply(message.config.theme);
+                    this.canvasManager.setAutoConnectNavigation(message.config.autoConnectNavigation);
+                    break;
                 case 'openFile':
-                    this.canvasManager.addEditor(message.file, message.content, message.uri, message.diagnostics, message.selection, message.layout);
+                    this.canvasManager.addEditor(message.file, message.content, message.uri, message.document, message.diagnostics, message.selection, message.layout, message.origin, message.reveal);
+                    break;
+                case 'restoreNotes':
+                    for (const note of message.notes) {
+                        this.canvasManager.addNote(note);
+                    }
+                    break;
+                case 'openMedia':
+                    this.canvasManager.addMedia(message.file);
+                    break;
+                case 'restoreMedia':
+                    for (const item of message.items) {
+                        this.canvasManager.addMedia(item.filePath, item);
+                    }
+                    break;
+                case 'restoreMissingFiles':
+                    for (const file of message.files) {
+                        this.canvasManager.addMissingFile(file);
+                    }
+                    break;
+                case 'restoreConnections':
+                    this.canvasManager.restoreConnections(message.connections);
                     break;
                 case 'restoreViewport':
                     this.canvasManager.setViewport(message.viewport);
+                    this.appStateManager.updateViewport(message.viewport);
+                    // Sent last during a restore: undo history starts here
+                    this.appStateManager.resetHistory();
+                    break;
+                case 'flushAppState':
+                    // The backend is about to switch canvases; save first, then confirm
+                    this.appStateManager.flush();
+                    this.messageClient.send('appStateFlushed');
+                    break;
+                case 'navigateCanvas':
+                    this.canvasManager.navigate(message.action);
                     break;
                 case 'didChangeTextDocument':
-                    // Update model content through ModelManager (handles dirty state)
-                    this.modelManager.updateModelContent(message.uri, message.content);
-                    // Also update the editor view
-                    this.canvasManager.updateEditorContent(message.file, message.content);
+                    // Editors share the model, so updating it updates every view
+                    this.modelManager.applyRemoteDeltas(message.uri, message.version, message.deltas, message.fromCanvas);
+                    this.modelManager.setDirtyState(message.uri, message.isDirty);
+                    break;
+                case 'didChangeDirtyState':
+                    this.modelManager.setDirtyState(message.uri, message.isDirty);
+                    break;
+                case 'didSaveTextDocument':
+                    // Saved in VS Code, e.g. from the native editor
+                    this.modelManager.markModelSaved(message.uri);
+                    break;
+                case 'filesRenamed':
+                    this.canvasManager.renameFiles(message.files);
+                    break;
+                case 'filesDeleted':
+                    this.canvasManager.markFilesMissing(message.paths);
                     break;
                 case 'setDiagnostics':
                     this.canvasManager.setEditorDiagnostics(message.file, message.diagnostics);
                     break;
+                case 'mirrorSelection':
+                    this.canvasManager.mirrorEditorSelection(message.file, message.selection);
+                    break;
                 case 'setBreakpoints':
                     this.canvasManager.setEditorBreakpoints(message.file, message.breakpoints);
                     break;
@@ -2,6 +2,15 @@ import { createTravels } from 'travels';
 import { MessageClient } from './MessageClient';
 import { PersistedAppState, DEFAULT_APP_STATE } from '../../shared/types/appState';
 import { PersistedNodeState, PersistedViewportState } from '../../shared/types/canvasState';
+import { type PersistedNoteState } from '../../shared/types/notesState';
+import { type PersistedMediaItemState } from '../../shared/types/mediaState';
+import { type PersistedConnectionState } from '../../shared/types/connectionsState';
+
+/** A mutation of the state draft, as passed to `travels.setState`. */
+type Recipe = (draft: PersistedAppState) => void;
+
+/** Marks history entries written by manual pans and zooms. */
+const PAN_METADATA = { source: 'pan' };
 
 /**
  * Manages the in-memory application state using Travels for efficient
@@ -16,16 +25,41 @@ import { PersistedNodeState, PersistedViewportState } from '../../shared/types/c
  * Consumer usage:
  *   appStateManager.addNode(node);            // canvas category
  *   appStateManager.updateNode(path, partial);
+ *   appStateManager.renameNode(old, new, uri);
  *   appStateManager.removeNode(path);
  *   appStateManager.updateViewport(v);
+ *   appStateManager.addNote(note);            // notes category
+ *   appStateManager.addMediaItem(item);       // media category
+ *   appStateManager.addConnection(conn);      // connections category
+ *   appStateManager.batch(() => { ... });     // several updates, one change
+ *   appStateManager.undo();                   // canvas-level undo/redo
+ *
+ * Undo history: changes arriving in quick succession (a drag, a resize,
+ * typing in a note) are merged into one undo step.  Manual pans and zooms
+ * made in a row are recorded as one step, so an animated viewport jump (a
+ * regular step) undoes to where the user had panned.  `undo()`/`redo()`
+ * step over pans and leave the viewport alone unless the step they revert
+ * moved it.
  */
 export class AppStateManager {
     private readonly travels = createTravels<PersistedAppState>(
-        structuredClone(DEFAULT_APP_STATE)
+        structuredClone(DEFAULT_APP_STATE),
+        { autoArchive: false, maxHistory: 100 }
     );
     private readonly messageClient: MessageClient;
     private saveTimer: ReturnType<typeof setTimeout> | null = null;
     private static readonly DEBOUNCE_MS = 500;
+    private historyTimer: ReturnType<typeof setTimeout> | null = null;
+    private static readonly HISTORY_MERGE_MS = 300;
+    private pendingRecipes: Recipe[] | null = null;
+    private isRecordingPaused: boolean = false;
+    /**
+     * The viewport on screen.  Travels holds the viewport as of the current
+     * history position, which undo can leave behind the one on screen.
+     */
+    private viewport: PersistedViewportState = structuredClone(DEFAULT_APP_STATE.canvas.viewport);
+    /** Whether the unarchived changes are pans, to be archived as one step. */
+    private isPanPending: boolean = false;
 
     constructor(messageClient: MessageClient) {
         this.messageClient = messageClient;
@@ -36,13 +70,156 @@ export class AppStateManager {
         if (this.saveTimer) { clearTimeout(this.saveTimer); }
         this.saveTimer = setTimeout(() => {
             this.saveTimer = null;
-            this.messageClient.send('saveAppState', { state: this.travels.getState() });
+            this.messageClient.send('saveAppState', { state: this.getState() });
         }, AppStateManager.DEBOUNCE_MS);
     }
 
+    /** Sends a pending debounced save right away. */
+    public flush(): void {
+        if (!this.saveTimer) { return; }
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        this.messageClient.send('saveAppState', { state: this.getState() });
+    }
+
     /** Returns the current application state snapshot. */
     public getState(): PersistedAppState {
-        return this.travels.getState();
+        const state = this.travels.getState();
+        return { ...state, canvas: { ...state.canvas, viewport: this.viewport } };
+    }
+
+    /**
+     * Runs several scoped updates as a single state change, so a group
+     * operation (e.g. moving a selection) is saved and recorded once.
+     * Nested calls are folded into the outermost batch.
+     */
+    public batch(fn: () => void): void {
+        if (this.pendingRecipes) {
+            fn();
+            return;
+        }
+        const recipes: Recipe[] = [];
+        this.pendingRecipes = recipes;
+        try {
+            fn();
+        } finally {
+            this.pendingRecipes = null;
+        }
+        if (recipes.length > 0) {
+            this.setState(draft => {
+                for (const recipe of recipes) {
+                    recipe(draft);
+                }
+            });
+        }
+    }
+
+    /** Applies a change immediately, or queues it while a batch is running. */
+    private update(recipe: Recipe): void {
+        if (this.isRecordingPaused) {
+            return;
+        }
+        if (this.pendingRecipes) {
+            this.pendingRecipes.push(recipe);
+        } else {
+            this.setState(recipe);
+        }
+    }
+
+    /** Applies a change, merging it into the undo step still in progress. */
+    private setState(recipe: Recipe): void {
+        if (this.isPanPending) {
+            this.commitHistory();
+        }
+        this.travels.setState(recipe);
+        if (this.historyTimer) { clearTimeout(this.historyTimer); }
+        this.historyTimer = setTimeout(() => this.commitHistory(), AppStateManager.HISTORY_MERGE_MS);
+    }
+
+    // -------------------------------------------------------------------------
+    // Undo history
+    // -------------------------------------------------------------------------
+
+    /** Closes the undo step in progress, if any. */
+    private commitHistory(): void {
+        if (this.historyTimer) {
+            clearTimeout(this.historyTimer);
+            this.historyTimer = null;
+        }
+        this.travels.archive(this.isPanPending ? PAN_METADATA : undefined);
+        this.isPanPending = false;
+    }
+
+    /**
+     * Runs `fn` with state writes ignored.  Used while the canvas catches up
+     * with a state that undo/redo has already restored.
+     */
+    public withoutRecording(fn: () => void): void {
+        const wasPaused = this.isRecordingPaused;
+        this.isRecordingPaused = true;
+        try {
+            fn();
+        } finally {
+            this.isRecordingPaused = wasPaused;
+        }
+    }
+
+    /**
+     * Makes the current state the start of the undo history, e.g. once a
+     * saved session has been restored.
+     */
+    public resetHistory(): void {
+        this.commitHistory();
+        this.travels.rebase();
+    }
+
+    /**
+     * Reverts the last change other than a pan.  The viewport only moves if
+     * the change did.
+     * @returns false if there is nothing to undo.
+     */
+    public undo(): boolean {
+        this.commitHistory();
+        const metadata = this.travels.getMetadata();
+        let position = this.travels.getPosition();
+        while (position > 0 && metadata[position - 1]?.source === PAN_METADATA.source) {
+            position--;
+        }
+        if (position === 0) {
+            return false;
+        }
+        this.goTo(position, position - 1);
+        return true;
+    }
+
+    /**
+     * Reapplies the last undone change.
+     * @returns false if there is nothing to redo.
+     */
+    public redo(): boolean {
+        this.commitHistory();
+        const metadata = this.travels.getMetadata();
+        let position = this.travels.getPosition();
+        while (position < metadata.length && metadata[position]?.source === PAN_METADATA.source) {
+            position++;
+        }
+        if (position === metadata.length) {
+            return false;
+        }
+        this.goTo(position, position + 1);
+        return true;
+    }
+
+    /**
+     * Moves to history position `to`, taking the viewport along if the step
+     * between `from` and `to` changed it.
+     */
+    private goTo(from: number, to: number): void {
+        const history = this.travels.getHistory();
+        if (!sameViewport(history[from].canvas.viewport, history[to].canvas.viewport)) {
+            this.viewport = history[to].canvas.viewport;
+        }
+        this.travels.go(to);
     }
 
     // -------------------------------------------------------------------------
@@ -51,7 +228,7 @@ export class AppStateManager {
 
     /** Registers a new canvas node, or replaces an existing one by filePath. */
     public addNode(node: PersistedNodeState): void {
-        this.travels.setState(draft => {
+        this.update(draft => {
             const idx = draft.canvas.nodes.findIndex(n => n.filePath === node.filePath);
             if (idx >= 0) {
                 draft.canvas.nodes[idx] = node;
@@ -66,15 +243,26 @@ export class AppStateManager {
         filePath: string,
         partial: Partial<Omit<PersistedNodeState, 'filePath' | 'uri'>>
     ): void {
-        this.travels.setState(draft => {
+        this.update(draft => {
             const node = draft.canvas.nodes.find(n => n.filePath === filePath);
             if (node) { Object.assign(node, partial); }
         });
     }
 
+    /** Points a canvas node at a renamed or relocated file, keeping its layout. */
+    public renameNode(oldFilePath: string, newFilePath: string, uri: string): void {
+        this.update(draft => {
+            const node = draft.canvas.nodes.find(n => n.filePath === oldFilePath);
+            if (node) {
+                node.filePath = newFilePath;
+                node.uri = uri;
+            }
+        });
+    }
+
     /** Removes a canvas node by filePath. */
     public removeNode(filePath: string): void {
-        this.travels.setState(draft => {
+        this.update(draft => {
             const idx = draft.canvas.nodes.findIndex(n => n.filePath === filePath);
             if (idx !== -1) { draft.canvas.nodes.splice(idx, 1); }
         });
@@ -84,10 +272,140 @@ export class AppStateManager {
     // Canvas — viewport
     // -------------------------------------------------------------------------
 
-    /** Updates the persisted viewport pan/zoom state. */
-    public updateViewport(viewport: PersistedViewportState): void {
+    /**
+     * Updates the persisted viewport pan/zoom state.
+     * @param undoable - Record the change as an undo step (viewport jumps);
+     *   otherwise undo/redo step over it (manual pans and zooms).
+     */
+    public updateViewport(viewport: PersistedViewportState, undoable: boolean = false): void {
+        if (this.isRecordingPaused) {
+            return;
+        }
+        if (!undoable && !this.pendingRecipes) {
+            this.viewport = viewport;
+            this.recordPan(viewport);
+            this.scheduleSave();
+            return;
+        }
+        // Undoing the jump returns to the viewport on screen, not one undo left behind
+        this.recordPan(this.viewport);
+        this.viewport = viewport;
+        this.update(draft => {
+            draft.canvas.viewport = viewport;
+        });
+    }
+
+    /** Records a pan or zoom, merged with the ones made right before it. */
+    private recordPan(viewport: PersistedViewportState): void {
+        if (sameViewport(this.travels.getState().canvas.viewport, viewport)) {
+            return;
+        }
+        if (!this.isPanPending) {
+            this.commitHistory();
+        }
         this.travels.setState(draft => {
             draft.canvas.viewport = viewport;
         });
+        this.isPanPending = true;
+    }
+
+    // -------------------------------------------------------------------------
+    // Notes
+    // -------------------------------------------------------------------------
+
+    /** Registers a new note, or replaces an existing one by id. */
+    public addNote(note: PersistedNoteState): void {
+        this.update(draft => {
+            const idx = draft.notes.notes.findIndex(n => n.id === note.id);
+            if (idx >= 0) {
+                draft.notes.notes[idx] = note;
+            } else {
+                draft.notes.notes.push(note);
+            }
+        });
+    }
+
+    /** Partially updates an existing note (content, position, size, zIndex). */
+    public updateNote(id: string, partial: Partial<Omit<PersistedNoteState, 'id'>>): void {
+        this.update(draft => {
+            const note = draft.notes.notes.find(n => n.id === id);
+            if (note) { Object.assign(note, partial); }
+        });
+    }
+
+    /** Removes a note by id. */
+    public removeNote(id: string): void {
+        this.update(draft => {
+            const idx = draft.notes.notes.findIndex(n => n.id === id);
+            if (idx !== -1) { draft.notes.notes.splice(idx, 1); }
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // Media
+    // -------------------------------------------------------------------------
+
+    /** Registers a new media item, or replaces an existing one by id. */
+    public addMediaItem(item: PersistedMediaItemState): void {
+        this.update(draft => {
+            const idx = draft.media.items.findIndex(m => m.id === item.id);
+            if (idx >= 0) {
+                draft.media.items[idx] = item;
+            } else {
+                draft.media.items.push(item);
+            }
+        });
+    }
+
+    /** Partially updates an existing media item (position, size, zIndex, or a moved file). */
+    public updateMediaItem(id: string, partial: Partial<Omit<PersistedMediaItemState, 'id'>>): void {
+        this.update(draft => {
+            const item = draft.media.items.find(m => m.id === id);
+            if (item) { Object.assign(item, partial); }
+        });
+    }
+
+    /** Removes a media item by id. */
+    public removeMediaItem(id: string): void {
+        this.update(draft => {
+            const idx = draft.media.items.findIndex(m => m.id === id);
+            if (idx !== -1) { draft.media.items.splice(idx, 1); }
+        });
     }
+
+    // -------------------------------------------------------------------------
+    // Connections
+    // -------------------------------------------------------------------------
+
+    /** Registers a new connection, or replaces an existing one by id. */
+    public addConnection(connection: PersistedConnectionState): void {
+        this.update(draft => {
+            const idx = draft.connections.connections.findIndex(c => c.id === connection.id);
+            if (idx >= 0) {
+                draft.connections.connections[idx] = connection;
+            } else {
+                draft.connections.connections.push(connection);
+            }
+        });
+    }
+
+    /** Partially updates an existing connection (label, endpoints). */
+    public updateConnection(id: string, partial: Partial<Omit<PersistedConnectionState, 'id'>>): void {
+        this.update(draft => {
+            const connection = draft.connections.connections.find(c => c.id === id);
+            if (connection) { Object.assign(connection, partial); }
+        });
+    }
+
+    /** Removes a connection by id. */
+    public removeConnection(id: string): void {
+        this.update(draft => {
+            const idx = draft.connections.connections.findIndex(c => c.id === id);
+            if (idx !== -1) { draft.connections.connections.splice(idx, 1); }
+        });
+    }
+}
+
+function sameViewport(a: PersistedViewportState, b: PersistedViewportState): boolean {
+    return a.panX === b.panX && a.panY === b.panY && a.zoom === b.zoom;
 }
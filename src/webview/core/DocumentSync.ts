@@ -0,0 +1,224 @@
+import * as monaco from 'monaco-editor';
+import { MessageClient } from './MessageClient';
+import { type TextDelta } from '../../shared/types/messages';
+import { transformDeltas } from '../../shared/TextDeltas';
+
+/**
+ * Keeps a Monaco model in sync with its VS Code document by exchanging
+ * deltas tagged with document versions, so edits made at the same time in
+ * the native editor and on the canvas are merged.
+ *
+ * - Local edits are sent in batches, one batch at a time, with the version
+ *   they were made against.  The backend refuses a batch if the document
+ *   has changed since; it is sent again once rebased over those changes.
+ * - Changes from VS Code are rebased over local edits the backend hasn't
+ *   applied yet before being applied to the model.
+ * - If a change overlaps an unapplied local edit, or a change was missed,
+ *   the model is reloaded from the document and the local edits are lost.
+ */
+export class DocumentSync {
+    private model: monaco.editor.ITextModel;
+    private filePath: string;
+    private messageClient: MessageClient;
+    /** Document version the model matches, not counting local edits. */
+    private version: number;
+    /** Local edits sent to the backend and not yet applied. */
+    private inflight: TextDelta[] | null = null;
+    /** Local edits made since `inflight` was sent. */
+    private pending: TextDelta[] = [];
+    /** Incremented on every send and reload, to ignore outdated responses. */
+    private requestId: number = 0;
+    private isApplyingRemote: boolean = false;
+    private isReloading: boolean = false;
+    /** Waiting for `whenSynced()`. */
+    private syncedCallbacks: (() => void)[] = [];
+    private disposable: monaco.IDisposable;
+
+    constructor(model: monaco.editor.ITextModel, filePath: string, version: number, messageClient: MessageClient) {
+        this.model = model;
+        this.filePath = filePath;
+        this.version = version;
+        this.messageClient = messageClient;
+
+        this.disposable = model.onDidChangeContent(e => {
+            if (this.isApplyingRemote) {
+                return;
+            }
+            this.pending.push(...e.changes.map(change => ({
+                offset: change.rangeOffset,
+                length: change.rangeLength,
+                text: change.text
+            })));
+            this.flush();
+        });
+    }
+
+    /**
+     * Applies a change made to the document in VS Code.
+     * @param fromCanvas - The change is the backend applying `inflight`.
+     */
+    public applyRemote(version: number, deltas: TextDelta[], fromCanvas: boolean) {
+        if (this.isReloading || version <= this.version) {
+            return;
+        }
+        if (version !== this.version + 1) {
+            // A change was missed; the deltas don't apply to the model
+            this.reload();
+            return;
+        }
+        if (fromCanvas && this.inflight) {
+            this.confirm(version);
+            return;
+        }
+
+        let remote = deltas;
+        if (this.inflight) {
+            const result = transformDeltas(this.inflight, remote, false);
+            if (!result) {
+                this.reload();
+                return;
+            }
+            [this.inflight, remote] = result;
+        }
+        if (this.pending.length > 0) {
+            const result = transformDeltas(this.pending, remote, false);
+            if (!result) {
+                this.reload();
+                return;
+            }
+            [this.pending, remote] = result;
+        }
+
+        this.version = version;
+        this.isApplyingRemote = true;
+        try {
+            for (const delta of remote) {
+                const range = monaco.Range.fromPositions(
+                    this.model.getPositionAt(delta.offset),
+                    this.model.getPositionAt(delta.offset + delta.length)
+                );
+                this.model.pushEditOperations([], [{ range, text: delta.text }], () => null);
+            }
+        } finally {
+            this.isApplyingRemote = false;
+        }
+    }
+
+    /**
+     * Replaces the model's content with the document's text at `version`,
+     * if newer than what the model has.
+     */
+    public reset(content: string, version: number) {
+        if (version <= this.version) {
+            return;
+        }
+        if (this.inflight || this.pending.length > 0) {
+            // Can't tell which local edits `content` already contains
+            this.reload();
+            return;
+        }
+        this.setContent(content, version);
+    }
+
+    /** Resolves once every local edit has been applied to the document (or dropped by a reload). */
+    public whenSynced(): Promise<void> {
+        if (!this.inflight && this.pending.length === 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.syncedCallbacks.push(resolve));
+    }
+
+    public dispose() {
+        this.disposable.dispose();
+        this.notifySynced();
+    }
+
+    /** Sends the pending edits, unless a batch is already in flight. */
+    private flush() {
+        if (this.inflight || this.isReloading || this.pending.length === 0) {
+            return;
+        }
+        this.inflight = this.pending;
+        this.pending = [];
+        const requestId = ++this.requestId;
+        const version = this.version;
+
+        this.messageClient.sendRequest('applyEdits', {
+            file: this.filePath,
+            version,
+            deltas: this.inflight
+        }).then((result: { applied: boolean; version: number }) => {
+            if (requestId !== this.requestId || !this.inflight) {
+                // Confirmed by the change event, or dropped by a reload
+                return;
+            }
+            if (result.applied) {
+                this.confirm(result.version);
+            } else if (result.version > version) {
+                // The document changed first.  Those changes have been received
+                // and `inflight` rebased over them, so send it again.
+                this.pending = [...this.inflight, ...this.pending];
+                this.inflight = null;
+                this.flush();
+            } else {
+                console.warn(`DocumentSync: Edits to '${this.filePath}' were not applied`);
+                this.reload();
+            }
+        }).catch(e => {
+            console.error(`DocumentSync: Failed to send edits to '${this.filePath}':`, e);
+            this.reload();
+        });
+    }
+
+    private confirm(version: number) {
+        this.version = version;
+        this.inflight = null;
+        this.flush();
+        if (!this.inflight) {
+            this.notifySynced();
+        }
+    }
+
+    private notifySynced() {
+        const callbacks = this.syncedCallbacks;
+        this.syncedCallbacks = [];
+        callbacks.forEach(callback => callback());
+    }
+
+    /** Drops local edits and reloads the model from the document. */
+    private async reload() {
+        if (this.isReloading) {
+            return;
+        }
+        this.isReloading = true;
+        this.inflight = null;
+        this.pending = [];
+        const requestId = ++this.requestId;
+        try {
+            const message = await this.messageClient.sendRequest('getEditorContent', { file: this.filePath });
+            if (message && requestId === this.requestId && !this.model.isDisposed()) {
+                this.setContent(message.content, message.document.version);
+            }
+        } catch (e) {
+            console.error(`DocumentSync: Failed to reload '${this.filePath}':`, e);
+        } finally {
+            this.isReloading = false;
+        }
+        // Edits made while reloading were lost with the old content
+        this.pending = [];
+        this.notifySynced();
+    }
+
+    private setContent(content: string, version: number) {
+        this.version = version;
+        if (this.model.getValue() === content) {
+            return;
+        }
+        this.isApplyingRemote = true;
+        try {
+            this.model.setValue(content);
+        } finally {
+            this.isApplyingRemote = false;
+        }
+    }
+}
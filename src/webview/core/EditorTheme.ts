@@ -0,0 +1,98 @@
+import * as monaco from 'monaco-editor';
+
+type ThemeBase = monaco.editor.BuiltinTheme;
+
+/** How the semantic token types bridged from VS Code are colored. */
+type TokenRole = 'type' | 'variable' | 'constant' | 'function' | 'label' | 'comment' | 'string' | 'keyword' | 'number' | 'regexp' | 'operator';
+
+/** The role of each type in `SEMANTIC_TOKENS_LEGEND`; readonly variables read as constants. */
+const TOKEN_ROLES: Record<string, TokenRole> = {
+    'namespace': 'type',
+    'class': 'type',
+    'enum': 'type',
+    'interface': 'type',
+    'struct': 'type',
+    'typeParameter': 'type',
+    'type': 'type',
+    'parameter': 'variable',
+    'variable': 'variable',
+    'variable.readonly': 'constant',
+    'property': 'variable',
+    'enumMember': 'constant',
+    'decorator': 'function',
+    'event': 'variable',
+    'function': 'function',
+    'method': 'function',
+    'macro': 'function',
+    'label': 'label',
+    'comment': 'comment',
+    'string': 'string',
+    'keyword': 'keyword',
+    'number': 'number',
+    'regexp': 'regexp',
+    'operator': 'operator'
+};
+
+/** The role colors of VS Code's Light+, Dark+ and high contrast themes. */
+const PALETTES: Record<ThemeBase, Record<TokenRole, string>> = {
+    'vs': {
+        type: '267F99', variable: '001080', constant: '0070C1', function: '795E26', label: '000000',
+        comment: '008000', string: 'A31515', keyword: '0000FF', number: '098658', regexp: '811F3F', operator: '000000'
+    },
+    'vs-dark': {
+        type: '4EC9B0', variable: '9CDCFE', constant: '4FC1FF', function: 'DCDCAA', label: 'C8C8C8',
+        comment: '6A9955', string: 'CE9178', keyword: '569CD6', number: 'B5CEA8', regexp: 'D16969', operator: 'D4D4D4'
+    },
+    'hc-black': {
+        type: '4EC9B0', variable: '9CDCFE', constant: '4FC1FF', function: 'DCDCAA', label: 'FFFFFF',
+        comment: '7CA668', string: 'CE9178', keyword: '569CD6', number: 'B5CEA8', regexp: 'D16969', operator: 'FFFFFF'
+    },
+    'hc-light': {
+        type: '185E73', variable: '001080', constant: '02715D', function: '5E2CBC', label: '292929',
+        comment: '515151', string: '0F4A85', keyword: '0F4A85', number: '096D48', regexp: '811F3F', operator: '000000'
+    }
+};
+
+/**
+ * The Monaco themes used by canvas editors: each built-in theme plus colors
+ * for the semantic token types bridged from VS Code (see
+ * `SEMANTIC_TOKENS_LEGEND`), taken from the matching VS Code theme.
+ */
+export class EditorTheme {
+    private static base: ThemeBase = 'vs-dark';
+
+    /** Defines the themes.  Must be called before any editor is created. */
+    public static define(): void {
+        for (const base of Object.keys(PALETTES) as ThemeBase[]) {
+            const palette = PALETTES[base];
+            monaco.editor.defineTheme(this.nameFor(base), {
+                base,
+                inherit: true,
+                rules: Object.entries(TOKEN_ROLES).map(([token, role]) => ({ token, foreground: palette[role] })),
+                colors: {}
+            });
+        }
+    }
+
+    /** The theme for new editors. */
+    public static get current(): string {
+        return this.nameFor(this.base);
+    }
+
+    /**
+     * Switches every editor to the theme based on `base` (`infiniteEdit.theme`
+     * or VS Code's color theme kind).  Unknown names keep the current theme.
+     */
+    public static apply(base: string): void {
+        if (!(base in PALETTES) || base === this.base) {
+            return;
+        }
+        this.base = base as ThemeBase;
+        // Monaco has a single theme shared by all editors
+        monaco.editor.setTheme(this.current);
+    }
+
+    private static nameFor(base: ThemeBase): string {
+        return `infinite-${base}`;
+    }
+}
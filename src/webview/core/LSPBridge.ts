@@ -1,6 +1,10 @@
 import * as monaco from 'monaco-editor';
 import { MessageClient } from './MessageClient';
 import { ModelManager } from './ModelManager';
+import { SEMANTIC_TOKENS_LEGEND } from '../../shared/SemanticTokens';
+
+/** Monaco command that runs a code action on the extension host. */
+const APPLY_CODE_ACTION_COMMAND = 'infinite-edit.applyCodeAction';
 
 export class LSPBridge {
     private messageClient: MessageClient;
@@ -43,9 +47,16 @@ export class LSPBridge {
                     }
                 }
 
+                // Tell the canvas where the navigation started so it can draw a connection
+                const position = source.getPosition();
+                const origin = sourceModel && sourceModel.uri.scheme === 'infinite' && position
+                    ? { file: sourceModel.uri.path, lineNumber: position.lineNumber }
+                    : undefined;
+
                 this.messageClient.send('requestOpenFile', {
                     path: resource.path,
-                    selection: selection
+                    selection: selection,
+                    origin: origin
                 });
 
                 return true; // We handled the request
@@ -60,32 +71,21 @@ export class LSPBridge {
 
         const selector = '*';
 
-        // Definition Provider
+        // Definition, Implementation, Type Definition and Declaration Providers
         monaco.languages.registerDefinitionProvider(selector, {
-            provideDefinition: async (model, position) => {
-                if (model.uri.scheme !== 'infinite') {
-                    return null;
-                }
-
-                const result = await this.messageClient.sendRequest('provideDefinition', {
-                    file: model.uri.path,
-                    position: {
-                        lineNumber: position.lineNumber,
-                        column: position.column
-                    }
-                });
-
-                if (!result) return null;
+            provideDefinition: (model, position) => this.provideLocations('provideDefinition', model, position)
+        });
 
-                const locations = Array.isArray(result)
-                    ? result.map(loc => this.transformLocation(loc))
-                    : [this.transformLocation(result)];
+        monaco.languages.registerImplementationProvider(selector, {
+            provideImplementation: (model, position) => this.provideLocations('provideImplementation', model, position)
+        });
 
-                // Ensure models exist so Monaco can navigate to them
-                await this.ensureModelsForLocations(locations);
+        monaco.languages.registerTypeDefinitionProvider(selector, {
+            provideTypeDefinition: (model, position) => this.provideLocations('provideTypeDefinition', model, position)
+        });
 
-                return Array.isArray(result) ? locations : locations[0];
-            }
+        monaco.languages.registerDeclarationProvider(selector, {
+            provideDeclaration: (model, position) => this.provideLocations('provideDeclaration', model, position)
         });
 
         // Hover Provider
@@ -292,6 +292,265 @@ export class LSPBridge {
                 return result.map((sym: any) => this.transformSymbol(sym));
             }
         });
+
+        // Rename Provider
+        // The host applies the rename to every affected file; open editors
+        // receive it as document changes, so Monaco gets no edits to apply.
+        monaco.languages.registerRenameProvider(selector, {
+            resolveRenameLocation: async (model, position) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                // Positions must match the document the host sees
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('prepareRename', {
+                    file: model.uri.path,
+                    position: {
+                        lineNumber: position.lineNumber,
+                        column: position.column
+                    }
+                });
+
+                if (!result) {
+                    return null;
+                }
+                if (result.rejectReason) {
+                    return {
+                        range: monaco.Range.fromPositions(position),
+                        text: '',
+                        rejectReason: result.rejectReason
+                    };
+                }
+                return {
+                    range: this.transformRange(result.range),
+                    text: result.placeholder
+                };
+            },
+            provideRenameEdits: async (model, position, newName) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideRenameEdits', {
+                    file: model.uri.path,
+                    position: {
+                        lineNumber: position.lineNumber,
+                        column: position.column
+                    },
+                    newName
+                });
+
+                if (!result || result.rejectReason) {
+                    return { edits: [], rejectReason: result?.rejectReason };
+                }
+
+                // Catch up models that weren't synced with their documents yet
+                await ModelManager.getInstance().refreshModels(result.files);
+
+                return { edits: [] };
+            }
+        });
+
+        // Formatting Providers
+        // Edits are computed against the document, so local edits are synced
+        // first; Monaco applies the result like any other edit.
+        monaco.languages.registerDocumentFormattingEditProvider(selector, {
+            provideDocumentFormattingEdits: async (model, options) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideDocumentFormattingEdits', {
+                    file: model.uri.path,
+                    options: this.transformFormattingOptions(options)
+                });
+
+                return this.transformTextEdits(result);
+            }
+        });
+
+        monaco.languages.registerDocumentRangeFormattingEditProvider(selector, {
+            provideDocumentRangeFormattingEdits: async (model, range, options) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideDocumentRangeFormattingEdits', {
+                    file: model.uri.path,
+                    range: {
+                        startLineNumber: range.startLineNumber,
+                        startColumn: range.startColumn,
+                        endLineNumber: range.endLineNumber,
+                        endColumn: range.endColumn
+                    },
+                    options: this.transformFormattingOptions(options)
+                });
+
+                return this.transformTextEdits(result);
+            }
+        });
+
+        monaco.languages.registerOnTypeFormattingEditProvider(selector, {
+            // The host's providers declare their own triggers; these cover the common ones
+            autoFormatTriggerCharacters: ['}', ';', '\n'],
+            provideOnTypeFormattingEdits: async (model, position, ch, options) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideOnTypeFormattingEdits', {
+                    file: model.uri.path,
+                    position: {
+                        lineNumber: position.lineNumber,
+                        column: position.column
+                    },
+                    ch,
+                    options: this.transformFormattingOptions(options)
+                });
+
+                return this.transformTextEdits(result);
+            }
+        });
+
+        // Semantic Tokens Providers
+        // Monaco requests tokens again after every edit to the model,
+        // including changes made in VS Code, once they are synced.
+        monaco.languages.registerDocumentSemanticTokensProvider(selector, {
+            getLegend: () => SEMANTIC_TOKENS_LEGEND,
+            provideDocumentSemanticTokens: async (model) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideDocumentSemanticTokens', {
+                    file: model.uri.path
+                });
+
+                if (!result || !Array.isArray(result.data)) {
+                    return null;
+                }
+                return { data: new Uint32Array(result.data) };
+            },
+            releaseDocumentSemanticTokens: () => { }
+        });
+
+        monaco.languages.registerDocumentRangeSemanticTokensProvider(selector, {
+            getLegend: () => SEMANTIC_TOKENS_LEGEND,
+            provideDocumentRangeSemanticTokens: async (model, range) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideDocumentRangeSemanticTokens', {
+                    file: model.uri.path,
+                    range: {
+                        startLineNumber: range.startLineNumber,
+                        startColumn: range.startColumn,
+                        endLineNumber: range.endLineNumber,
+                        endColumn: range.endColumn
+                    }
+                });
+
+                if (!result || !Array.isArray(result.data)) {
+                    return null;
+                }
+                return { data: new Uint32Array(result.data) };
+            }
+        });
+
+        // Code Action Provider
+        // Actions stay on the host: Monaco runs them through this command,
+        // and their edits come back as document changes.
+        monaco.editor.registerCommand(APPLY_CODE_ACTION_COMMAND, async (_accessor, batch: number, index: number) => {
+            try {
+                const result = await this.messageClient.sendRequest('applyCodeAction', { batch, index });
+                await ModelManager.getInstance().refreshModels(result?.files ?? []);
+            } catch (e) {
+                console.error('LSPBridge: Failed to apply code action:', e);
+                this.messageClient.send('alert', { message: e instanceof Error ? e.message : String(e) });
+            }
+        });
+
+        monaco.languages.registerCodeActionProvider(selector, {
+            provideCodeActions: async (model, range, context) => {
+                if (model.uri.scheme !== 'infinite') {
+                    return null;
+                }
+                await ModelManager.getInstance().whenSynced(model.uri);
+
+                const result = await this.messageClient.sendRequest('provideCodeActions', {
+                    file: model.uri.path,
+                    range: {
+                        startLineNumber: range.startLineNumber,
+                        startColumn: range.startColumn,
+                        endLineNumber: range.endLineNumber,
+                        endColumn: range.endColumn
+                    },
+                    only: context.only
+                });
+
+                if (!result || !Array.isArray(result.actions)) {
+                    return null;
+                }
+
+                const batch: number = result.batch;
+                return {
+                    actions: result.actions.map((action: any, index: number): monaco.languages.CodeAction => ({
+                        title: action.title,
+                        kind: action.kind,
+                        isPreferred: action.isPreferred,
+                        disabled: action.disabled,
+                        diagnostics: action.diagnostics,
+                        command: {
+                            id: APPLY_CODE_ACTION_COMMAND,
+                            title: action.title,
+                            arguments: [batch, index]
+                        }
+                    })),
+                    dispose: () => {
+                        this.messageClient.send('releaseCodeActions', { batch });
+                    }
+                };
+            }
+        }, {
+            providedCodeActionKinds: ['quickfix', 'refactor', 'source', 'source.organizeImports']
+        });
+    }
+
+    /**
+     * Requests locations from a host provider that takes a position, such as
+     * `provideDefinition`, and loads the models Monaco needs to show them.
+     */
+    private async provideLocations(command: string, model: monaco.editor.ITextModel, position: monaco.Position): Promise<monaco.languages.Location[] | null> {
+        if (model.uri.scheme !== 'infinite') {
+            return null;
+        }
+
+        const result = await this.messageClient.sendRequest(command, {
+            file: model.uri.path,
+            position: {
+                lineNumber: position.lineNumber,
+                column: position.column
+            }
+        });
+
+        if (!result) {
+            return null;
+        }
+
+        const locations = (Array.isArray(result) ? result : [result]).map((loc: any) => this.transformLocation(loc));
+
+        // Ensure models exist so Monaco can navigate to them
+        await this.ensureModelsForLocations(locations);
+
+        return locations;
     }
 
     private disableBuiltinProviders() {
@@ -337,6 +596,23 @@ export class LSPBridge {
         };
     }
 
+    private transformFormattingOptions(options: monaco.languages.FormattingOptions) {
+        return {
+            tabSize: options.tabSize,
+            insertSpaces: options.insertSpaces
+        };
+    }
+
+    private transformTextEdits(edits: any): monaco.languages.TextEdit[] | null {
+        if (!edits || !Array.isArray(edits)) {
+            return null;
+        }
+        return edits.map((edit: any) => ({
+            range: this.transformRange(edit.range),
+            text: edit.newText
+        }));
+    }
+
     private transformRange(range: any): monaco.IRange {
         if (!range) {
             return { startLineNumber: 0, startColumn: 0, endLineNumber: 0, endColumn: 0 };
@@ -1,6 +1,8 @@
 import * as monaco from 'monaco-editor';
 import { LanguageManager } from './LanguageManager';
 import { MessageClient } from './MessageClient';
+import { DocumentSync } from './DocumentSync';
+import { type DocumentState, type TextDelta } from '../../shared/types/messages';
 
 /**
  * Represents a reference to a Monaco model with lifecycle management.
@@ -34,12 +36,15 @@ interface ManagedModel {
     isTemporary: boolean;
     /** Timeout handle for temporary model cleanup */
     cleanupTimeout?: ReturnType<typeof setTimeout>;
+    /** Keeps the model in sync with the VS Code document; null until its version is known (an editor opened without document state) */
+    sync: DocumentSync | null;
 }
 
 /**
  * ModelManager provides centralized management of Monaco editor models with:
  * - Reference counting for proper lifecycle management
  * - Dirty state tracking
+ * - Incremental sync of edits with the VS Code document (see DocumentSync)
  * - Coordinated saves across multiple editors viewing the same file
  * - Automatic disposal when no references remain
  * - Support for temporary models (e.g., for peek views)
@@ -88,12 +93,14 @@ export class ModelManager {
      * @param uri The URI for the model (should use infinite:// scheme)
      * @param content The initial content (only used if model doesn't exist)
      * @param filePath The file path for language detection
+     * @param document State of the document `content` is from; edits are only synced once it is known
      * @returns A model reference that must be disposed when no longer needed
      */
     public getOrCreateModelReference(
         uri: string | monaco.Uri,
         content: string,
-        filePath: string
+        filePath: string,
+        document?: DocumentState
     ): IModelReference {
         const monacoUri = typeof uri === 'string' ? monaco.Uri.parse(uri) : uri;
         const key = monacoUri.toString();
@@ -109,6 +116,10 @@ export class ModelManager {
             // Mark as non-temporary if being used by an editor
             managed.isTemporary = false;
             managed.refCount++;
+            if (!managed.sync && document) {
+                // Created for a peek view from the file on disk; catch up with the document
+                this.startSync(managed, content, filePath, document);
+            }
         } else {
             // Check if Monaco already has this model (from previous session or LSPBridge)
             let model = monaco.editor.getModel(monacoUri);
@@ -116,6 +127,9 @@ export class ModelManager {
             if (!model) {
                 const language = LanguageManager.prepareLanguageForFile(filePath);
                 model = monaco.editor.createModel(content, language, monacoUri);
+            } else if (document && model.getValue() !== content) {
+                // Deltas from the backend must apply to the document's text
+                model.setValue(content);
             }
 
             const disposables: monaco.IDisposable[] = [];
@@ -124,15 +138,20 @@ export class ModelManager {
                 model,
                 uri: monacoUri,
                 refCount: 1,
-                isDirty: false,
+                isDirty: document?.isDirty ?? false,
                 originalContent: content,
                 disposables,
-                isTemporary: false
+                isTemporary: false,
+                sync: document ? new DocumentSync(model, filePath, document.version, this.messageClient) : null
             };
 
             // Track content changes for dirty state
+            // (synced models get it from the VS Code document instead)
             disposables.push(
                 model.onDidChangeContent(() => {
+                    if (managed!.sync) {
+                        return;
+                    }
                     const currentContent = model!.getValue();
                     managed!.isDirty = currentContent !== managed!.originalContent;
                     this.emitDirtyStateChanged(key, managed!.isDirty);
@@ -172,26 +191,40 @@ export class ModelManager {
             return this.createReference(managed);
         }
 
+        // Load the document's text, so the model can be kept in sync with it
+        let message: any;
+        try {
+            message = await this.messageClient.sendRequest('getEditorContent', {
+                file: filePath
+            });
+        } catch (e) {
+            console.warn(`Failed to create temporary model for ${filePath}:`, e);
+            return null;
+        }
+        if (!message) {
+            return null;
+        }
+
+        // Another request may have created the model meanwhile
+        const existing = this.models.get(key);
+        if (existing) {
+            if (existing.cleanupTimeout) {
+                clearTimeout(existing.cleanupTimeout);
+                existing.cleanupTimeout = undefined;
+            }
+            existing.refCount++;
+            return this.createReference(existing);
+        }
+
         // Check if Monaco already has this model
         let model = monaco.editor.getModel(monacoUri);
 
         if (!model) {
-            // Fetch content from backend
-            try {
-                const content = await this.messageClient.sendRequest('getFileContent', {
-                    file: filePath
-                });
-
-                if (content === null || content === undefined) {
-                    return null;
-                }
-
-                const language = LanguageManager.prepareLanguageForFile(filePath);
-                model = monaco.editor.createModel(content, language, monacoUri);
-            } catch (e) {
-                console.warn(`Failed to create temporary model for ${filePath}:`, e);
-                return null;
-            }
+            const language = LanguageManager.prepareLanguageForFile(filePath);
+            model = monaco.editor.createModel(message.content, language, monacoUri);
+        } else if (model.getValue() !== message.content) {
+            // Deltas from the backend must apply to the document's text
+            model.setValue(message.content);
         }
 
         const disposables: monaco.IDisposable[] = [];
@@ -200,15 +233,19 @@ export class ModelManager {
             model,
             uri: monacoUri,
             refCount: 1,
-            isDirty: false,
-            originalContent: model.getValue(),
+            isDirty: message.document.isDirty,
+            originalContent: message.content,
             disposables,
-            isTemporary: true
+            isTemporary: true,
+            sync: new DocumentSync(model, filePath, message.document.version, this.messageClient)
         };
 
         // Track content changes for dirty state (even temporary models can be edited in peek view)
         disposables.push(
             model.onDidChangeContent(() => {
+                if (managed!.sync) {
+                    return;
+                }
                 const currentContent = model!.getValue();
                 managed!.isDirty = currentContent !== managed!.originalContent;
             })
@@ -257,8 +294,9 @@ export class ModelManager {
      *
      * @param uri The model URI
      * @param content The new content
+     * @param document State of the document `content` is from; ignored if not newer than the model's
      */
-    public updateModelContent(uri: string | monaco.Uri | undefined, content: string): void {
+    public updateModelContent(uri: string | monaco.Uri | undefined, content: string, document?: DocumentState): void {
         if (!uri) {
             console.warn('updateModelContent called with undefined uri');
             return;
@@ -268,6 +306,11 @@ export class ModelManager {
         const managed = this.models.get(key);
 
         if (managed) {
+            if (managed.sync && document) {
+                managed.sync.reset(content, document.version);
+                this.setDirtyState(key, document.isDirty);
+                return;
+            }
             const currentValue = managed.model.getValue();
             if (currentValue !== content) {
                 // Use pushEditOperations to preserve undo stack where possible
@@ -280,6 +323,94 @@ export class ModelManager {
         }
     }
 
+    /**
+     * Apply a change made to the document in VS Code, merging it with any
+     * edits not yet applied by the backend.
+     *
+     * @param uri The model URI
+     * @param version The document version after the change
+     * @param deltas The change
+     * @param fromCanvas Whether the change is an edit made in this model
+     */
+    public applyRemoteDeltas(uri: string, version: number, deltas: TextDelta[], fromCanvas: boolean): void {
+        const key = monaco.Uri.parse(uri).toString();
+        const managed = this.models.get(key);
+        if (!managed?.sync) {
+            return;
+        }
+        managed.sync.applyRemote(version, deltas, fromCanvas);
+    }
+
+    /**
+     * Wait until local edits to a model have reached its VS Code document,
+     * e.g. before asking the host about positions in it.
+     *
+     * @param uri The model URI
+     */
+    public async whenSynced(uri: string | monaco.Uri): Promise<void> {
+        const monacoUri = typeof uri === 'string' ? monaco.Uri.parse(uri) : uri;
+        await this.models.get(monacoUri.toString())?.sync?.whenSynced();
+    }
+
+    /**
+     * Bring models that aren't synced with their VS Code document yet up to
+     * date with it, and keep them synced.
+     * Used after the host edits files outside the canvas, such as a rename.
+     *
+     * @param uris The model URIs; ones without a model are skipped
+     */
+    public async refreshModels(uris: string[]): Promise<void> {
+        await Promise.all(uris.map(async uri => {
+            const managed = this.models.get(monaco.Uri.parse(uri).toString());
+            if (!managed || managed.sync) {
+                return;
+            }
+            const message = await this.messageClient.sendRequest('getEditorContent', { file: managed.uri.path });
+            if (message && !managed.sync && !managed.model.isDisposed()) {
+                this.startSync(managed, message.content, managed.uri.path, message.document);
+            }
+        }));
+    }
+
+    /**
+     * Set the dirty state of a model kept in sync with a VS Code document,
+     * whose dirty state is the document's.
+     *
+     * @param uri The model URI
+     * @param isDirty Whether the document has unsaved changes
+     */
+    public setDirtyState(uri: string | monaco.Uri, isDirty: boolean): void {
+        const monacoUri = typeof uri === 'string' ? monaco.Uri.parse(uri) : uri;
+        const key = monacoUri.toString();
+        const managed = this.models.get(key);
+
+        if (managed && managed.isDirty !== isDirty) {
+            managed.isDirty = isDirty;
+            this.emitDirtyStateChanged(key, isDirty);
+        }
+    }
+
+    /**
+     * Save every model with unsaved changes.
+     *
+     * @returns The models that failed to save, with the reason
+     */
+    public async saveAll(): Promise<{ uri: monaco.Uri; error: string }[]> {
+        const failed: { uri: monaco.Uri; error: string }[] = [];
+        for (const uri of this.getDirtyModels()) {
+            const managed = this.models.get(uri.toString());
+            try {
+                if (managed) {
+                    await this.saveModel(managed);
+                }
+            } catch (e) {
+                console.error(`Failed to save ${uri.path}:`, e);
+                failed.push({ uri, error: String(e) });
+            }
+        }
+        return failed;
+    }
+
     /**
      * Mark a model as saved (resets dirty state and updates original content).
      * Called after a successful save operation.
@@ -398,21 +529,34 @@ export class ModelManager {
     }
 
     /**
-     * Save a model's content to the backend.
+     * Replace a model's content with its document's and start syncing it.
+     */
+    private startSync(managed: ManagedModel, content: string, filePath: string, document: DocumentState): void {
+        if (managed.model.getValue() !== content) {
+            managed.model.setValue(content);
+        }
+        managed.originalContent = content;
+        managed.sync = new DocumentSync(managed.model, filePath, document.version, this.messageClient);
+        this.setDirtyState(managed.uri, document.isDirty);
+    }
+
+    /**
+     * Save a model by saving its VS Code document, which already has its edits.
+     * @throws The reason, if the backend couldn't save it or the model's
+     *   edits never reached the document
      */
     private async saveModel(managed: ManagedModel): Promise<void> {
-        const content = managed.model.getValue();
-        const filePath = managed.uri.path;
+        if (!managed.sync) {
+            throw new Error(`${managed.uri.path} is not synced with its document; reopen it to save`);
+        }
+        // Edits still on their way would be missing from the saved file
+        await managed.sync.whenSynced();
 
         await this.messageClient.sendRequest('saveFile', {
-            file: filePath,
-            content: content
+            file: managed.uri.path
         });
 
-        // Mark as saved
-        managed.originalContent = content;
-        managed.isDirty = false;
-        this.emitDirtyStateChanged(managed.uri.toString(), false);
+        this.markModelSaved(managed.uri);
     }
 
     /**
@@ -455,6 +599,7 @@ export class ModelManager {
         for (const disposable of managed.disposables) {
             disposable.dispose();
         }
+        managed.sync?.dispose();
 
         // Dispose the model
         managed.model.dispose();
@@ -1 +1,594 @@
-export class ConnectionManager { }
+import { Application, Container, Graphics, Text, type FederatedPointerEvent, type IHitArea } from 'pixi.js';
+import { BaseNode, type NodeBounds } from '../nodes/BaseNode';
+import { EditorNode } from '../nodes/EditorNode';
+import { MessageClient } from '../core/MessageClient';
+import { AppStateManager } from '../core/AppStateManager';
+import { InputManager } from './InputManager';
+import { type PersistedConnectionEndpoint, type PersistedConnectionState } from '../../shared/types/connectionsState';
+
+type Point = { x: number; y: number };
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+const SIDE_DIRECTIONS: Record<Side, Point> = {
+    left: { x: -1, y: 0 },
+    right: { x: 1, y: 0 },
+    top: { x: 0, y: -1 },
+    bottom: { x: 0, y: 1 }
+};
+
+/** Number of segments used to approximate a curve for hit testing and dashing (must be even). */
+const CURVE_SAMPLES = 24;
+
+/**
+ * Hit area following a sampled bezier curve, so a connection is only
+ * clickable near its stroke rather than across its whole bounding box.
+ */
+class CurveHitArea implements IHitArea {
+    public points: Point[] = [];
+
+    constructor(private getTolerance: () => number) { }
+
+    contains(x: number, y: number): boolean {
+        const tolerance = this.getTolerance();
+        for (let i = 1; i < this.points.length; i++) {
+            if (distanceToSegment({ x, y }, this.points[i - 1], this.points[i]) <= tolerance) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function bezierPoint(p0: Point, c1: Point, c2: Point, p3: Point, t: number): Point {
+    const u = 1 - t;
+    return {
+        x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p3.y
+    };
+}
+
+interface ConnectionView {
+    state: PersistedConnectionState;
+    graphics: Graphics;
+    label: Text;
+    hitArea: CurveHitArea;
+}
+
+/**
+ * Draws labelled bezier arrows between canvas nodes.
+ *
+ * Either end of a connection can be anchored to a line range inside an
+ * EditorNode; the arrow then follows those lines as the editor scrolls.
+ * Connections re-route whenever an attached node moves or resizes, can be
+ * selected by clicking them (Delete removes, double-click edits the label),
+ * and are persisted in the `connections` category of the app state.
+ *
+ * A new connection is started with `beginConnection()` and completed by
+ * clicking the target node (or a line inside a target editor).  Connections
+ * generated from code navigation are marked `auto`, drawn dashed, and removed
+ * together by `clearNavigationConnections()` unless they have been labelled.
+ */
+export class ConnectionManager {
+    private app: Application;
+    private contentContainer: Container;
+    private appStateManager: AppStateManager;
+    private messageClient: MessageClient;
+    private getNodes: () => BaseNode[];
+    private layer: Container;
+    private previewGraphics: Graphics;
+    private connections: Map<string, ConnectionView> = new Map();
+    private selectedId: string | null = null;
+    private pending: { from: PersistedConnectionEndpoint; pointer: Point } | null = null;
+    private needsRedraw: boolean = false;
+
+    private readonly COLOR = 0x268bca;
+    private readonly SELECTED_COLOR = 0xf0b429;
+    private readonly LINE_WIDTH = 2;
+    private readonly ARROW_SIZE = 12;
+
+    private disposeKeyBindings: (() => void)[];
+    private boundOnPendingPointerMove = this.onPendingPointerMove.bind(this);
+    private boundOnPendingPointerDown = this.onPendingPointerDown.bind(this);
+
+    constructor(app: Application, contentContainer: Container, appStateManager: AppStateManager, messageClient: MessageClient, inputManager: InputManager, getNodes: () => BaseNode[]) {
+        this.app = app;
+        this.contentContainer = contentContainer;
+        this.appStateManager = appStateManager;
+        this.messageClient = messageClient;
+        this.getNodes = getNodes;
+
+        // Above the grid, below anything with a node-level z-index
+        this.layer = new Container();
+        this.layer.zIndex = 1;
+        this.layer.sortableChildren = true;
+        this.contentContainer.addChild(this.layer);
+
+        this.previewGraphics = new Graphics();
+        this.previewGraphics.zIndex = 1;
+        this.layer.addChild(this.previewGraphics);
+
+        this.app.ticker.add(() => {
+            if (this.needsRedraw) {
+                this.needsRedraw = false;
+                this.redraw();
+            }
+        });
+
+        const removeSelected = () => {
+            if (!this.selectedId) {
+                return false;
+            }
+            this.removeConnection(this.selectedId);
+            return true;
+        };
+        this.disposeKeyBindings = [
+            inputManager.registerKey({ key: 'Delete', handler: removeSelected }),
+            inputManager.registerKey({ key: 'Backspace', handler: removeSelected }),
+            inputManager.registerKey({
+                key: 'Escape',
+                handler: () => {
+                    if (!this.selectedId) {
+                        return false;
+                    }
+                    this.clearSelection();
+                    return true;
+                }
+            }),
+            // Also while Monaco has focus, e.g. after "Connect Lines To…" from its context menu
+            inputManager.registerKey({
+                key: 'Escape',
+                when: 'always',
+                handler: () => {
+                    if (!this.pending) {
+                        return false;
+                    }
+                    this.cancelConnection();
+                    return true;
+                }
+            })
+        ];
+    }
+
+    /**
+     * Re-routes connections whenever the node moves, resizes or (for
+     * editors) scrolls.  Called by CanvasManager for every node it tracks.
+     */
+    public attachNode(node: BaseNode) {
+        const invalidate = () => this.invalidate();
+        node.on('moved', invalidate);
+        node.on('resized', invalidate);
+        node.on('scrolled', invalidate);
+        node.on('connectionRequested', (lineRange?: PersistedConnectionEndpoint['lineRange']) => {
+            this.beginConnection({ nodeId: node.getNodeId(), lineRange });
+        });
+    }
+
+    /** Schedules a redraw on the next frame. */
+    public invalidate() {
+        this.needsRedraw = true;
+    }
+
+    /**
+     * Restores persisted connections.  Connections whose nodes could not be
+     * restored are dropped.
+     */
+    public restoreConnections(connections: PersistedConnectionState[]) {
+        for (const connection of connections) {
+            if (!this.findNode(connection.from.nodeId) || !this.findNode(connection.to.nodeId)) {
+                console.warn(`ConnectionManager: Dropping connection '${connection.id}' to a node that is no longer on the canvas.`);
+                continue;
+            }
+            this.addConnection(connection);
+        }
+    }
+
+    /**
+     * Adds, removes and relabels connections to match `connections` (after
+     * undo/redo).  Connections to nodes that aren't on the canvas yet are
+     * skipped; call again once they are.
+     */
+    public syncConnections(connections: PersistedConnectionState[]) {
+        const wanted = new Map(connections.map(c => [c.id, c]));
+        for (const id of [...this.connections.keys()]) {
+            if (!wanted.has(id)) {
+                this.removeConnection(id);
+            }
+        }
+        for (const connection of connections) {
+            const view = this.connections.get(connection.id);
+            if (view) {
+                view.state = structuredClone(connection);
+            } else if (this.findNode(connection.from.nodeId) && this.findNode(connection.to.nodeId)) {
+                this.addConnection(connection);
+            }
+        }
+        this.invalidate();
+    }
+
+    /**
+     * Creates a new connection between two endpoints.
+     * @returns The id of the new connection.
+     */
+    public connect(from: PersistedConnectionEndpoint, to: PersistedConnectionEndpoint, label: string = ''): string {
+        const id = crypto.randomUUID();
+        this.addConnection({ id, from, to, label });
+        return id;
+    }
+
+    /**
+     * Adds a dashed connection for a code navigation, unless an identical
+     * one is already on the canvas.
+     */
+    public addNavigationConnection(from: PersistedConnectionEndpoint, to: PersistedConnectionEndpoint) {
+        const sameEndpoint = (a: PersistedConnectionEndpoint, b: PersistedConnectionEndpoint) =>
+            a.nodeId === b.nodeId
+            && a.lineRange?.startLineNumber === b.lineRange?.startLineNumber
+            && a.lineRange?.endLineNumber === b.lineRange?.endLineNumber;
+
+        for (const view of this.connections.values()) {
+            if (sameEndpoint(view.state.from, from) && sameEndpoint(view.state.to, to)) {
+                return;
+            }
+        }
+        this.addConnection({ id: crypto.randomUUID(), from, to, label: '', auto: true });
+    }
+
+    /** Removes every navigation connection that has not been kept. */
+    public clearNavigationConnections() {
+        for (const view of [...this.connections.values()]) {
+            if (view.state.auto) {
+                this.removeConnection(view.state.id);
+            }
+        }
+    }
+
+    /** Adds a connection and registers it with the app state. */
+    public addConnection(state: PersistedConnectionState) {
+        if (this.connections.has(state.id)) {
+            return;
+        }
+
+        const graphics = new Graphics();
+        const hitArea = new CurveHitArea(() => 8 / (this.contentContainer.scale.x || 1));
+        graphics.hitArea = hitArea;
+        graphics.eventMode = 'static';
+        graphics.cursor = 'pointer';
+        graphics.on('pointertap', (e: FederatedPointerEvent) => this.onConnectionTap(state.id, e));
+
+        const label = new Text({
+            text: state.label,
+            style: { fontFamily: 'sans-serif', fontSize: 13, fill: 0xffffff }
+        });
+        label.anchor.set(0.5);
+        label.eventMode = 'static';
+        label.cursor = 'pointer';
+        label.on('pointertap', (e: FederatedPointerEvent) => this.onConnectionTap(state.id, e));
+
+        this.layer.addChild(graphics, label);
+        this.connections.set(state.id, { state: structuredClone(state), graphics, label, hitArea });
+        this.appStateManager.addConnection(state);
+        this.invalidate();
+    }
+
+    public removeConnection(id: string) {
+        const view = this.connections.get(id);
+        if (!view) {
+            return;
+        }
+        if (this.selectedId === id) {
+            this.selectedId = null;
+        }
+        this.connections.delete(id);
+        this.appStateManager.removeConnection(id);
+        this.layer.removeChild(view.graphics, view.label);
+        view.graphics.destroy();
+        view.label.destroy();
+    }
+
+    /** Removes every connection attached to the given node (used when the node closes). */
+    public removeConnectionsForNode(nodeId: string) {
+        for (const view of [...this.connections.values()]) {
+            if (view.state.from.nodeId === nodeId || view.state.to.nodeId === nodeId) {
+                this.removeConnection(view.state.id);
+            }
+        }
+        if (this.pending?.from.nodeId === nodeId) {
+            this.cancelConnection();
+        }
+    }
+
+    /** Moves every connection endpoint on `oldNodeId` to `newNodeId` (a renamed file). */
+    public retargetNode(oldNodeId: string, newNodeId: string) {
+        for (const view of this.connections.values()) {
+            const { from, to } = view.state;
+            if (from.nodeId !== oldNodeId && to.nodeId !== oldNodeId) {
+                continue;
+            }
+            if (from.nodeId === oldNodeId) {
+                from.nodeId = newNodeId;
+            }
+            if (to.nodeId === oldNodeId) {
+                to.nodeId = newNodeId;
+            }
+            this.appStateManager.updateConnection(view.state.id, { from: { ...from }, to: { ...to } });
+        }
+        if (this.pending?.from.nodeId === oldNodeId) {
+            this.cancelConnection();
+        }
+        this.invalidate();
+    }
+
+    public setLabel(id: string, label: string) {
+        const view = this.connections.get(id);
+        if (!view) {
+            return;
+        }
+        view.state.label = label;
+        // Naming a navigation connection keeps it when the trail is cleared
+        view.state.auto = false;
+        this.appStateManager.updateConnection(id, { label, auto: false });
+        this.invalidate();
+    }
+
+    /** Prompts for a new label through the extension host's input box. */
+    public async editLabel(id: string) {
+        const view = this.connections.get(id);
+        if (!view) {
+            return;
+        }
+        const label: string | null = await this.messageClient.sendRequest('showInputBox', {
+            prompt: 'Connection label',
+            value: view.state.label
+        });
+        if (label !== null && label !== undefined) {
+            this.setLabel(id, label);
+        }
+    }
+
+    public select(id: string | null) {
+        if (this.selectedId !== id) {
+            this.selectedId = id;
+            this.invalidate();
+        }
+    }
+
+    public clearSelection() {
+        this.select(null);
+    }
+
+    /**
+     * Starts drawing a connection from the given endpoint.  The next click on
+     * a node completes it; clicking the background or pressing Escape cancels.
+     */
+    public beginConnection(from: PersistedConnectionEndpoint) {
+        const rect = this.getAnchorRect(from);
+        if (!rect) {
+            return;
+        }
+        this.cancelConnection();
+        this.pending = { from, pointer: { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 } };
+        document.body.classList.add('connecting');
+        window.addEventListener('pointermove', this.boundOnPendingPointerMove, true);
+        window.addEventListener('pointerdown', this.boundOnPendingPointerDown, true);
+        this.invalidate();
+    }
+
+    public cancelConnection() {
+        if (!this.pending) {
+            return;
+        }
+        this.pending = null;
+        document.body.classList.remove('connecting');
+        window.removeEventListener('pointermove', this.boundOnPendingPointerMove, true);
+        window.removeEventListener('pointerdown', this.boundOnPendingPointerDown, true);
+        this.previewGraphics.clear();
+    }
+
+    private onPendingPointerMove(e: PointerEvent) {
+        if (this.pending) {
+            this.pending.pointer = this.contentContainer.toLocal({ x: e.clientX, y: e.clientY });
+            this.invalidate();
+        }
+    }
+
+    private onPendingPointerDown(e: PointerEvent) {
+        if (!this.pending) {
+            return;
+        }
+        const from = this.pending.from;
+        const target = e.target as Node;
+        const node = this.getNodes().find(n => n.element?.contains(target));
+        this.cancelConnection();
+
+        // Clicking the background (or anything that is not a node) cancels
+        if (!node || e.button !== 0) {
+            return;
+        }
+
+        // Keep the click from starting a drag or moving the editor cursor
+        e.preventDefault();
+        e.stopPropagation();
+
+        const to: PersistedConnectionEndpoint = { nodeId: node.getNodeId() };
+        if (node instanceof EditorNode) {
+            const line = node.getLineNumberAtClientPoint(e.clientX, e.clientY);
+            if (line !== null) {
+                to.lineRange = { startLineNumber: line, endLineNumber: line };
+            }
+        }
+        if (to.nodeId === from.nodeId && (!to.lineRange || !from.lineRange)) {
+            return; // A node can only connect to itself between two line ranges
+        }
+
+        const id = this.connect(from, to);
+        this.select(id);
+        this.editLabel(id);
+    }
+
+    private onConnectionTap(id: string, e: FederatedPointerEvent) {
+        e.stopPropagation();
+        this.select(id);
+        if (e.detail === 2) {
+            this.editLabel(id);
+        }
+    }
+
+    private findNode(nodeId: string): BaseNode | undefined {
+        return this.getNodes().find(n => n.getNodeId() === nodeId);
+    }
+
+    /**
+     * World-space rectangle an endpoint attaches to: the whole node, or the
+     * band of lines for an editor line range.
+     */
+    private getAnchorRect(endpoint: PersistedConnectionEndpoint): NodeBounds | null {
+        const node = this.findNode(endpoint.nodeId);
+        if (!node) {
+            return null;
+        }
+        if (endpoint.lineRange && node instanceof EditorNode) {
+            const span = node.getLineRangeOffsets(endpoint.lineRange.startLineNumber, endpoint.lineRange.endLineNumber);
+            return { x: node.x, y: node.y + span.top, width: node.width, height: span.bottom - span.top };
+        }
+        return { x: node.x, y: node.y, width: node.width, height: node.height };
+    }
+
+    /**
+     * Picks the sides the curve leaves and enters through.  Nodes side by side
+     * connect horizontally; stacked nodes connect vertically, except line
+     * anchors which always leave through the right edge.
+     */
+    private route(from: NodeBounds, to: NodeBounds, lineAnchored: boolean): { start: Point; startSide: Side; end: Point; endSide: Side } {
+        const fromCenterY = from.y + from.height / 2;
+        const toCenterY = to.y + to.height / 2;
+
+        if (to.x >= from.x + from.width) {
+            return { start: { x: from.x + from.width, y: fromCenterY }, startSide: 'right', end: { x: to.x, y: toCenterY }, endSide: 'left' };
+        }
+        if (to.x + to.width <= from.x) {
+            return { start: { x: from.x, y: fromCenterY }, startSide: 'left', end: { x: to.x + to.width, y: toCenterY }, endSide: 'right' };
+        }
+        if (lineAnchored) {
+            return { start: { x: from.x + from.width, y: fromCenterY }, startSide: 'right', end: { x: to.x + to.width, y: toCenterY }, endSide: 'right' };
+        }
+
+        const fromCenterX = from.x + from.width / 2;
+        const toCenterX = to.x + to.width / 2;
+        if (toCenterY >= fromCenterY) {
+            return { start: { x: fromCenterX, y: from.y + from.height }, startSide: 'bottom', end: { x: toCenterX, y: to.y }, endSide: 'top' };
+        }
+        return { start: { x: fromCenterX, y: from.y }, startSide: 'top', end: { x: toCenterX, y: to.y + to.height }, endSide: 'bottom' };
+    }
+
+    private redraw() {
+        for (const view of this.connections.values()) {
+            this.drawConnection(view);
+        }
+        this.drawPreview();
+    }
+
+    private drawConnection(view: ConnectionView) {
+        const { graphics, label, hitArea, state } = view;
+        graphics.clear();
+
+        const fromRect = this.getAnchorRect(state.from);
+        const toRect = this.getAnchorRect(state.to);
+        if (!fromRect || !toRect) {
+            hitArea.points = [];
+            label.visible = false;
+            return;
+        }
+
+        const { start, startSide, end, endSide } = this.route(fromRect, toRect, !!(state.from.lineRange || state.to.lineRange));
+        const offset = Math.max(40, Math.min(200, Math.hypot(end.x - start.x, end.y - start.y) / 2));
+        const startDir = SIDE_DIRECTIONS[startSide];
+        const endDir = SIDE_DIRECTIONS[endSide];
+        const c1 = { x: start.x + startDir.x * offset, y: start.y + startDir.y * offset };
+        const c2 = { x: end.x + endDir.x * offset, y: end.y + endDir.y * offset };
+
+        const color = state.id === this.selectedId ? this.SELECTED_COLOR : this.COLOR;
+        const width = state.id === this.selectedId ? this.LINE_WIDTH * 1.5 : this.LINE_WIDTH;
+
+        // Stop the stroke short of the arrow head so the tip stays sharp
+        const tipBase = { x: end.x + endDir.x * this.ARROW_SIZE, y: end.y + endDir.y * this.ARROW_SIZE };
+        hitArea.points = [];
+        for (let i = 0; i <= CURVE_SAMPLES; i++) {
+            hitArea.points.push(bezierPoint(start, c1, c2, tipBase, i / CURVE_SAMPLES));
+        }
+
+        if (state.auto) {
+            // Navigation connections are dashed: stroke every other sampled segment
+            for (let i = 0; i < CURVE_SAMPLES; i += 2) {
+                graphics.moveTo(hitArea.points[i].x, hitArea.points[i].y).lineTo(hitArea.points[i + 1].x, hitArea.points[i + 1].y);
+            }
+            graphics.stroke({ width, color });
+        } else {
+            graphics
+                .moveTo(start.x, start.y)
+                .bezierCurveTo(c1.x, c1.y, c2.x, c2.y, tipBase.x, tipBase.y)
+                .stroke({ width, color });
+        }
+
+        // Arrow head pointing into the target node
+        const half = this.ARROW_SIZE / 2;
+        graphics
+            .poly([
+                end.x, end.y,
+                tipBase.x - endDir.y * half, tipBase.y + endDir.x * half,
+                tipBase.x + endDir.y * half, tipBase.y - endDir.x * half
+            ])
+            .fill(color);
+
+        hitArea.points.push(end);
+
+        // Label on a rounded background at the middle of the curve
+        label.text = state.label;
+        label.visible = state.label.length > 0;
+        if (label.visible) {
+            const mid = bezierPoint(start, c1, c2, tipBase, 0.5);
+            label.position.set(mid.x, mid.y);
+            const padX = 6;
+            const padY = 3;
+            graphics
+                .roundRect(mid.x - label.width / 2 - padX, mid.y - label.height / 2 - padY, label.width + padX * 2, label.height + padY * 2, 4)
+                .fill({ color: 0x1e1e1e, alpha: 0.9 })
+                .stroke({ width: 1, color });
+        }
+    }
+
+    /** Rubber-band line from the pending source to the pointer. */
+    private drawPreview() {
+        this.previewGraphics.clear();
+        if (!this.pending) {
+            return;
+        }
+        const rect = this.getAnchorRect(this.pending.from);
+        if (!rect) {
+            return;
+        }
+        const pointer = this.pending.pointer;
+        const startX = pointer.x >= rect.x + rect.width / 2 ? rect.x + rect.width : rect.x;
+        const startY = rect.y + rect.height / 2;
+        this.previewGraphics
+            .moveTo(startX, startY)
+            .lineTo(pointer.x, pointer.y)
+            .stroke({ width: this.LINE_WIDTH, color: this.COLOR, alpha: 0.6 })
+            .circle(pointer.x, pointer.y, 4)
+            .fill({ color: this.COLOR, alpha: 0.6 });
+    }
+
+    public destroy() {
+        this.cancelConnection();
+        this.disposeKeyBindings.forEach(dispose => dispose());
+        this.layer.destroy({ children: true });
+        this.connections.clear();
+    }
+}
@@ -0,0 +1,218 @@
+import { BaseNode } from '../nodes/BaseNode';
+import { EditorNode } from '../nodes/EditorNode';
+import { MessageClient } from '../core/MessageClient';
+import { ModelManager } from '../core/ModelManager';
+import { NodeLayoutManager, type ChildPlacement } from '../canvas/NodeLayoutManager';
+import { ConnectionManager } from './ConnectionManager';
+import { type HierarchyCall, type HierarchyItem, type LineColumnRange, type PersistedLayoutHint } from '../../shared/types/messages';
+
+/**
+ * The hierarchy an editor command asks for: `incoming` (callers) and
+ * `outgoing` (callees) calls, or `types` (supertypes and subtypes).
+ */
+export type HierarchyKind = 'incoming' | 'outgoing' | 'types';
+
+type HierarchyDirection = 'incoming' | 'outgoing' | 'supertypes' | 'subtypes';
+
+const KINDS: Record<HierarchyKind, { prepare: string; directions: HierarchyDirection[] }> = {
+    incoming: { prepare: 'prepareCallHierarchy', directions: ['incoming'] },
+    outgoing: { prepare: 'prepareCallHierarchy', directions: ['outgoing'] },
+    types: { prepare: 'prepareTypeHierarchy', directions: ['supertypes', 'subtypes'] }
+};
+
+/**
+ * How each direction is requested and laid out.  `edgeFromChild` points
+ * connections from the child to its parent: from a caller to the function
+ * it calls, and from a subtype to its supertype.
+ */
+const DIRECTIONS: Record<HierarchyDirection, { provide: string; label: string; placement: ChildPlacement; edgeFromChild: boolean }> = {
+    incoming: { provide: 'provideIncomingCalls', label: 'callers', placement: 'right', edgeFromChild: true },
+    outgoing: { provide: 'provideOutgoingCalls', label: 'callees', placement: 'right', edgeFromChild: false },
+    supertypes: { provide: 'provideSupertypes', label: 'supertypes', placement: 'above', edgeFromChild: false },
+    subtypes: { provide: 'provideSubtypes', label: 'subtypes', placement: 'below', edgeFromChild: true }
+};
+
+/**
+ * What the HierarchyManager needs from the canvas that owns the nodes.
+ */
+export interface HierarchyHost {
+    findEditor(file: string): EditorNode | undefined;
+    /**
+     * Opens a file in a new EditorNode at `layout`.
+     * @param message - The file's `openFile` message, from `getEditorContent`.
+     */
+    openEditor(message: any, layout: PersistedLayoutHint): EditorNode | undefined;
+}
+
+/** A symbol shown in a hierarchy tree, and the directions it expands in. */
+interface HierarchyEntry {
+    item: HierarchyItem;
+    kind: HierarchyKind;
+    directions: HierarchyDirection[];
+}
+
+function containsPosition(range: LineColumnRange, position: { lineNumber: number; column: number }): boolean {
+    if (position.lineNumber < range.startLineNumber || position.lineNumber > range.endLineNumber) {
+        return false;
+    }
+    if (position.lineNumber === range.startLineNumber && position.column < range.startColumn) {
+        return false;
+    }
+    return position.lineNumber !== range.endLineNumber || position.column <= range.endColumn;
+}
+
+function toLineRange(range: LineColumnRange) {
+    return { startLineNumber: range.startLineNumber, endLineNumber: range.endLineNumber };
+}
+
+/**
+ * Lays out call and type hierarchies on the canvas.
+ *
+ * "Show Call Hierarchy" in an editor opens the callers of the function
+ * under the cursor (or its callees, for "Show Outgoing Calls") as editor
+ * nodes scrolled to each function, in a column to the right of the editor,
+ * with a dashed connection for every call.  "Show Type Hierarchy" opens the
+ * supertypes of the class or interface in a row above the editor and its
+ * subtypes in a row below.  Running a command again on a symbol already in
+ * the tree expands it by one more level.
+ *
+ * Files are shown by a single EditorNode each, so symbols in a file that
+ * is already on the canvas connect to its existing node.
+ */
+export class HierarchyManager {
+    private messageClient: MessageClient;
+    private connectionManager: ConnectionManager;
+    private layoutManager: NodeLayoutManager;
+    private host: HierarchyHost;
+    private entries: HierarchyEntry[] = [];
+
+    constructor(messageClient: MessageClient, connectionManager: ConnectionManager, host: HierarchyHost) {
+        this.messageClient = messageClient;
+        this.connectionManager = connectionManager;
+        this.layoutManager = NodeLayoutManager.getInstance();
+        this.host = host;
+    }
+
+    /** Listens for the editor's hierarchy commands. */
+    public attachNode(node: BaseNode) {
+        if (node instanceof EditorNode) {
+            node.on('hierarchyRequested', (position: { lineNumber: number; column: number }, kind: HierarchyKind) => {
+                this.show(node, position, kind);
+            });
+        }
+    }
+
+    /** Forgets the tree entries shown by a node that was closed. */
+    public detachNode(nodeId: string) {
+        this.release(this.entries.filter(entry => entry.item.file === nodeId).map(entry => entry.item));
+        this.entries = this.entries.filter(entry => entry.item.file !== nodeId);
+    }
+
+    /**
+     * Expands the symbol at `position` by one level: the tree entry there,
+     * or a new tree rooted at the symbol.
+     */
+    public async show(editor: EditorNode, position: { lineNumber: number; column: number }, kind: HierarchyKind) {
+        const file = editor.getFilePath();
+        // The innermost symbol, for nested ones
+        const existing = this.entries
+            .filter(entry => entry.kind === kind && entry.item.file === file && containsPosition(entry.item.range, position))
+            .sort((a, b) => (a.item.range.endLineNumber - a.item.range.startLineNumber) - (b.item.range.endLineNumber - b.item.range.startLineNumber))[0];
+        if (existing) {
+            await this.expand(existing, editor);
+            return;
+        }
+
+        // The position must match the document the host sees
+        await ModelManager.getInstance().whenSynced(editor.getUri());
+        const items: HierarchyItem[] | null = await this.messageClient.sendRequest(KINDS[kind].prepare, { file, position });
+        if (!items || items.length === 0) {
+            editor.showMessage(kind === 'types' ? 'No type hierarchy for this symbol' : 'No call hierarchy for this symbol');
+            return;
+        }
+        this.release(items.slice(1));
+        await this.expand(this.addEntry(items[0], kind, KINDS[kind].directions), editor);
+    }
+
+    private addEntry(item: HierarchyItem, kind: HierarchyKind, directions: HierarchyDirection[]): HierarchyEntry {
+        const existing = this.entries.find(entry =>
+            entry.kind === kind
+            && entry.item.file === item.file
+            && entry.item.selectionRange.startLineNumber === item.selectionRange.startLineNumber
+            && entry.item.selectionRange.startColumn === item.selectionRange.startColumn);
+        if (existing) {
+            this.release([item]);
+            return existing;
+        }
+        const entry = { item, kind, directions };
+        this.entries.push(entry);
+        return entry;
+    }
+
+    /** Lets the host drop items no entry refers to. */
+    private release(items: HierarchyItem[]) {
+        if (items.length > 0) {
+            this.messageClient.send('releaseHierarchyItems', { ids: items.map(item => item.id) });
+        }
+    }
+
+    private async expand(entry: HierarchyEntry, editor: EditorNode) {
+        const results = await Promise.all(entry.directions.map(direction => this.requestChildren(entry.item, direction)));
+        if (results.every(children => children.length === 0)) {
+            const labels = entry.directions.map(direction => DIRECTIONS[direction].label);
+            editor.showMessage(`No ${labels.join(' or ')} of '${entry.item.name}'`);
+            return;
+        }
+
+        for (let i = 0; i < entry.directions.length; i++) {
+            await this.addChildren(entry, entry.directions[i], results[i], editor);
+        }
+    }
+
+    /** Requests the calls or types one level away from `item`, as calls. */
+    private async requestChildren(item: HierarchyItem, direction: HierarchyDirection): Promise<HierarchyCall[]> {
+        const result = await this.messageClient.sendRequest(DIRECTIONS[direction].provide, { id: item.id });
+        if (!result) {
+            return [];
+        }
+        return direction === 'supertypes' || direction === 'subtypes'
+            ? (result as HierarchyItem[]).map(type => ({ item: type, fromRanges: [] }))
+            : result;
+    }
+
+    private async addChildren(parent: HierarchyEntry, direction: HierarchyDirection, children: HierarchyCall[], editor: EditorNode) {
+        const { placement, edgeFromChild } = DIRECTIONS[direction];
+
+        // Open the files not on the canvas yet next to the parent
+        const newFiles = [...new Set(children.map(child => child.item.file))].filter(file => !this.host.findEditor(file));
+        const messages = (await Promise.all(newFiles.map(file => this.messageClient.sendRequest('getEditorContent', { file }))))
+            .filter(message => message);
+        const sizes = messages.map(message => this.layoutManager.calculateSizeForContent(message.content));
+        const positions = this.layoutManager.calculateChildPositions(editor, sizes, placement);
+        messages.forEach((message, i) => {
+            this.host.openEditor(message, { ...positions[i], ...sizes[i], zIndex: BaseNode.topZIndex + 1 });
+        });
+
+        const revealed = new Set<string>();
+        for (const { item, fromRanges } of children) {
+            const child = this.addEntry(item, parent.kind, [direction]);
+            const childEditor = this.host.findEditor(item.file);
+            // Symbols within the same file stay where the user is looking
+            if (!childEditor || item.file === parent.item.file) {
+                continue;
+            }
+            // Scroll each file to the first symbol found in it
+            if (!revealed.has(item.file)) {
+                revealed.add(item.file);
+                childEditor.mirrorSelection(item.selectionRange);
+            }
+
+            // Calls start at the call site; `fromRanges` lie in the calling item
+            const [from, to] = edgeFromChild ? [child.item, parent.item] : [parent.item, child.item];
+            this.connectionManager.addNavigationConnection(
+                { nodeId: from.file, lineRange: toLineRange(fromRanges[0] ?? from.selectionRange) },
+                { nodeId: to.file, lineRange: toLineRange(to.selectionRange) }
+            );
+        }
+    }
+}
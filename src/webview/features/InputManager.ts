@@ -1 +1,357 @@
-export class InputManager { }
+import { Container, EventEmitter, type FederatedPointerEvent, type FederatedWheelEvent } from 'pixi.js';
+import { BaseNode } from '../nodes/BaseNode';
+import { isEditableTarget } from '../utils/DomUtils';
+
+type Point = { x: number; y: number };
+
+/**
+ * A keyboard shortcut registered with the InputManager.
+ */
+export interface KeyBinding {
+    /**
+     * Key combination such as `Delete`, `Escape`, `Ctrl+=` or `Shift+ArrowLeft`.
+     * `Ctrl` matches Cmd on macOS; `Space` names the space bar.
+     */
+    key: string;
+    /**
+     * `canvas` (default) bindings only fire while no text input (Monaco, a
+     * note, the toolbar search) has focus; `always` bindings fire regardless.
+     */
+    when?: 'canvas' | 'always';
+    /**
+     * Called when the key is pressed.  Return `false` to let the next binding
+     * for the same key handle it; anything else consumes the event.
+     */
+    handler: (e: KeyboardEvent) => boolean | void;
+}
+
+/**
+ * A pointer gesture started by pressing on the empty canvas background.
+ * The first registered gesture whose `matches` returns true takes the
+ * press; when none does, the press pans the canvas.
+ */
+export interface BackgroundGesture {
+    matches: (e: FederatedPointerEvent) => boolean;
+    start: (e: FederatedPointerEvent) => void;
+}
+
+/**
+ * What the InputManager needs from the canvas it drives.
+ */
+export interface CanvasInputHost {
+    getNodes(): BaseNode[];
+    getFocusedNode(): BaseNode | null;
+    /** Pans the canvas by a screen-space offset. */
+    panBy(dx: number, dy: number): void;
+    /** Changes the zoom level by `delta`, keeping `global` (screen space) fixed. */
+    zoomAt(global: Point, delta: number): void;
+    /** Resets zoom to 100%, keeping `global` fixed. */
+    resetZoom(global: Point): void;
+    /** Persists the viewport once a pan/zoom gesture is over. */
+    commitViewport(): void;
+    /** Brings a node to front, makes it the focused node and scrolls it into view. */
+    focusNode(node: BaseNode): void;
+}
+
+/**
+ * Canvas-level keyboard and pointer input.
+ *
+ * Owns the built-in gestures (background drag and Space+drag to pan, wheel
+ * and Ctrl+/- to zoom, arrow keys to cycle through nodes, Escape to leave
+ * the editor) and a registry other features bind their shortcuts to.
+ * Canvas shortcuts are suppressed while Monaco or another text input has
+ * focus, so typing never triggers them.
+ *
+ * Emits `backgroundPointerDown` and `backgroundDoubleClick` with the
+ * FederatedPointerEvent.
+ */
+export class InputManager extends EventEmitter {
+    private stage: Container;
+    private host: CanvasInputHost;
+    private bindings: KeyBinding[] = [];
+    private gestures: BackgroundGesture[] = [];
+    private isSpaceHeld: boolean = false;
+    private panLastPos: Point | null = null;
+
+    private readonly ZOOM_SENSITIVITY: number = 0.004;
+    /** Zoom levels per Ctrl+/- press. */
+    private readonly ZOOM_STEP: number = 2;
+
+    private boundOnKeyDown = this.onKeyDown.bind(this);
+    private boundOnKeyUp = this.onKeyUp.bind(this);
+    private boundOnWindowBlur = this.onWindowBlur.bind(this);
+    private boundOnSpacePointerDown = this.onSpacePointerDown.bind(this);
+    private boundOnPanMove = this.onPanMove.bind(this);
+    private boundOnPanEnd = this.onPanEnd.bind(this);
+
+    constructor(stage: Container, host: CanvasInputHost) {
+        super();
+        this.stage = stage;
+        this.host = host;
+
+        this.stage.on('pointerdown', this.onStagePointerDown.bind(this));
+        this.stage.on('pointertap', this.onStagePointerTap.bind(this));
+        this.stage.on('wheel', this.onWheel.bind(this));
+
+        // Bubble phase: Monaco stops propagation of keys it handles itself
+        // (e.g. Escape closing the suggest widget), so those never reach us.
+        window.addEventListener('keydown', this.boundOnKeyDown);
+        window.addEventListener('keyup', this.boundOnKeyUp);
+        window.addEventListener('blur', this.boundOnWindowBlur);
+        // Capture phase so Space+drag works over nodes too
+        window.addEventListener('pointerdown', this.boundOnSpacePointerDown, true);
+
+        this.registerBuiltinBindings();
+    }
+
+    /**
+     * Registers a keyboard shortcut.  Later registrations get the first
+     * chance to handle a key.
+     * @returns A function that removes the binding.
+     */
+    public registerKey(binding: KeyBinding): () => void {
+        this.bindings.push(binding);
+        return () => {
+            const index = this.bindings.indexOf(binding);
+            if (index !== -1) {
+                this.bindings.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Registers a gesture for presses on the canvas background.
+     * @returns A function that removes the gesture.
+     */
+    public registerBackgroundGesture(gesture: BackgroundGesture): () => void {
+        this.gestures.push(gesture);
+        return () => {
+            const index = this.gestures.indexOf(gesture);
+            if (index !== -1) {
+                this.gestures.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * True while Monaco, a note or another text input has keyboard focus.
+     */
+    public get isTextInputFocused(): boolean {
+        return isEditableTarget(document.activeElement);
+    }
+
+    /**
+     * Takes keyboard focus away from any editor or input so canvas
+     * shortcuts apply again.
+     */
+    public focusCanvas() {
+        if (document.activeElement instanceof HTMLElement) {
+            document.activeElement.blur();
+        }
+    }
+
+    private registerBuiltinBindings() {
+        // Leave the editor (or note / search box) and return to the canvas
+        this.registerKey({
+            key: 'Escape',
+            when: 'always',
+            handler: () => {
+                if (!this.isTextInputFocused) {
+                    return false;
+                }
+                this.focusCanvas();
+                return true;
+            }
+        });
+
+        // Zoom around the screen center
+        const center = () => ({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+        const zoomIn = () => {
+            this.host.zoomAt(center(), this.ZOOM_STEP);
+            this.host.commitViewport();
+        };
+        const zoomOut = () => {
+            this.host.zoomAt(center(), -this.ZOOM_STEP);
+            this.host.commitViewport();
+        };
+        this.registerKey({ key: 'Ctrl+=', handler: zoomIn });
+        this.registerKey({ key: 'Ctrl++', handler: zoomIn });
+        this.registerKey({ key: 'Ctrl+-', handler: zoomOut });
+        this.registerKey({
+            key: 'Ctrl+0',
+            handler: () => {
+                this.host.resetZoom(center());
+                this.host.commitViewport();
+            }
+        });
+
+        // Cycle through nodes in reading order
+        this.registerKey({ key: 'ArrowRight', handler: () => this.cycleNodes(1) });
+        this.registerKey({ key: 'ArrowDown', handler: () => this.cycleNodes(1) });
+        this.registerKey({ key: 'ArrowLeft', handler: () => this.cycleNodes(-1) });
+        this.registerKey({ key: 'ArrowUp', handler: () => this.cycleNodes(-1) });
+
+        // Hold Space to pan by dragging anywhere, even over nodes
+        this.registerKey({
+            key: 'Space',
+            handler: (e) => {
+                if (!e.repeat) {
+                    this.isSpaceHeld = true;
+                    document.body.classList.add('space-panning');
+                }
+            }
+        });
+    }
+
+    /**
+     * Focuses the next (`1`) or previous (`-1`) node, ordered top-to-bottom
+     * then left-to-right, wrapping around at the ends.
+     */
+    private cycleNodes(direction: 1 | -1): boolean {
+        const nodes = [...this.host.getNodes()].sort((a, b) => (a.y - b.y) || (a.x - b.x));
+        if (nodes.length === 0) {
+            return false;
+        }
+        const current = this.host.getFocusedNode();
+        const index = current ? nodes.indexOf(current) : -1;
+        const next = index === -1
+            ? nodes[direction === 1 ? 0 : nodes.length - 1]
+            : nodes[(index + direction + nodes.length) % nodes.length];
+        this.host.focusNode(next);
+        return true;
+    }
+
+    private onKeyDown(e: KeyboardEvent) {
+        if (e.defaultPrevented) {
+            return;
+        }
+        const textFocused = isEditableTarget(e.target);
+        for (let i = this.bindings.length - 1; i >= 0; i--) {
+            const binding = this.bindings[i];
+            if ((binding.when ?? 'canvas') === 'canvas' && textFocused) {
+                continue;
+            }
+            if (!matchesKey(binding.key, e)) {
+                continue;
+            }
+            if (binding.handler(e) !== false) {
+                e.preventDefault();
+                return;
+            }
+        }
+    }
+
+    private onKeyUp(e: KeyboardEvent) {
+        if (e.key === ' ') {
+            this.releaseSpace();
+        }
+    }
+
+    private onWindowBlur() {
+        this.releaseSpace();
+    }
+
+    private releaseSpace() {
+        this.isSpaceHeld = false;
+        document.body.classList.remove('space-panning');
+    }
+
+    private onSpacePointerDown(e: PointerEvent) {
+        if (!this.isSpaceHeld || e.button !== 0) {
+            return;
+        }
+        // Keep nodes from starting a drag, resize or text selection
+        e.preventDefault();
+        e.stopPropagation();
+        this.beginPan({ x: e.clientX, y: e.clientY });
+    }
+
+    private onStagePointerDown(e: FederatedPointerEvent) {
+        if (e.target !== this.stage) {
+            return; // Only react to the background
+        }
+        this.focusCanvas();
+        this.emit('backgroundPointerDown', e);
+
+        for (let i = this.gestures.length - 1; i >= 0; i--) {
+            if (this.gestures[i].matches(e)) {
+                this.gestures[i].start(e);
+                return;
+            }
+        }
+        this.beginPan({ x: e.global.x, y: e.global.y });
+    }
+
+    private onStagePointerTap(e: FederatedPointerEvent) {
+        if (e.target === this.stage && e.detail === 2) {
+            this.emit('backgroundDoubleClick', e);
+        }
+    }
+
+    /** Pans with the pointer until it is released; tracked on window so nodes under the pointer don't interrupt it. */
+    private beginPan(start: Point) {
+        if (this.panLastPos) {
+            return;
+        }
+        this.panLastPos = start;
+        window.addEventListener('pointermove', this.boundOnPanMove);
+        window.addEventListener('pointerup', this.boundOnPanEnd);
+    }
+
+    private onPanMove(e: PointerEvent) {
+        if (!this.panLastPos) {
+            return;
+        }
+        this.host.panBy(e.clientX - this.panLastPos.x, e.clientY - this.panLastPos.y);
+        this.panLastPos = { x: e.clientX, y: e.clientY };
+    }
+
+    private onPanEnd() {
+        this.panLastPos = null;
+        window.removeEventListener('pointermove', this.boundOnPanMove);
+        window.removeEventListener('pointerup', this.boundOnPanEnd);
+        this.host.commitViewport();
+    }
+
+    private onWheel(e: FederatedWheelEvent) {
+        this.host.zoomAt(e.global, -e.deltaY * this.ZOOM_SENSITIVITY);
+        this.host.commitViewport();
+    }
+
+    public destroy() {
+        window.removeEventListener('keydown', this.boundOnKeyDown);
+        window.removeEventListener('keyup', this.boundOnKeyUp);
+        window.removeEventListener('blur', this.boundOnWindowBlur);
+        window.removeEventListener('pointerdown', this.boundOnSpacePointerDown, true);
+        if (this.panLastPos) {
+            this.onPanEnd();
+        }
+        this.bindings = [];
+        this.gestures = [];
+        this.removeAllListeners();
+    }
+}
+
+/**
+ * Checks a key combination such as `Ctrl+Shift+Z` against a keyboard event.
+ * Modifiers not named in the combination must not be pressed (Shift is
+ * ignored for punctuation keys, whose `key` already reflects it).
+ */
+function matchesKey(combo: string, e: KeyboardEvent): boolean {
+    // Split on '+' but keep a trailing '+' as the key itself (e.g. `Ctrl++`)
+    const parts = combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+');
+    const key = parts.pop()!;
+    const modifiers = new Set(parts.map(p => p.toLowerCase()));
+
+    const ctrl = e.ctrlKey || e.metaKey;
+    if (modifiers.has('ctrl') !== ctrl || modifiers.has('alt') !== e.altKey) {
+        return false;
+    }
+    const isPunctuation = key.length === 1 && !/[a-z0-9]/i.test(key);
+    if (!isPunctuation && modifiers.has('shift') !== e.shiftKey) {
+        return false;
+    }
+
+    const eventKey = e.key === ' ' ? 'Space' : e.key;
+    return eventKey.toLowerCase() === key.toLowerCase();
+}
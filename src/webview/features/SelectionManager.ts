@@ -1 +1,317 @@
-export class SelectionManager { }
+import { Container, EventEmitter, Graphics, Rectangle } from 'pixi.js';
+import { BaseNode, type NodeBounds } from '../nodes/BaseNode';
+import { AppStateManager } from '../core/AppStateManager';
+import { getOverlappingNodes } from '../utils/CollisionUtils';
+import { InputManager } from './InputManager';
+
+type Point = { x: number; y: number };
+
+/** Edge or center line that `align()` lines the selection up on. */
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * What the SelectionManager needs from the canvas that owns the nodes.
+ */
+export interface SelectionHost {
+    getNodes(): BaseNode[];
+    /** Writes a node's layout change to the app state. */
+    persistNodeLayout(node: BaseNode, patch: Partial<NodeBounds>): void;
+    removeNode(node: BaseNode): void;
+    /**
+     * Asks whether to save or discard unsaved changes in the nodes about to
+     * be removed.
+     * @returns false if the nodes must stay.
+     */
+    confirmRemoval(nodes: BaseNode[]): Promise<boolean>;
+}
+
+/**
+ * Multi-selection of canvas nodes.
+ *
+ * Shift+drag on the background draws a marquee that adds every node it
+ * touches; shift-clicking a title bar toggles that node.  Dragging any
+ * selected node moves the whole selection, and delete/align act on all
+ * selected nodes.  Each group operation is written to the AppStateManager
+ * as a single batched change.
+ *
+ * Emits `selectionChanged` with the selected nodes.
+ */
+export class SelectionManager extends EventEmitter {
+    private contentContainer: Container;
+    private appStateManager: AppStateManager;
+    private host: SelectionHost;
+    private selected: Set<BaseNode> = new Set();
+    private marqueeGraphics: Graphics;
+    private marquee: { start: Point; base: Set<BaseNode> } | null = null;
+    private groupDrag: { leader: BaseNode; starts: Map<BaseNode, Point> } | null = null;
+
+    private disposeInputBindings: (() => void)[];
+    private boundOnMarqueeMove = this.onMarqueeMove.bind(this);
+    private boundOnMarqueeEnd = this.onMarqueeEnd.bind(this);
+
+    constructor(contentContainer: Container, appStateManager: AppStateManager, inputManager: InputManager, host: SelectionHost) {
+        super();
+        this.contentContainer = contentContainer;
+        this.appStateManager = appStateManager;
+        this.host = host;
+
+        // Above the grid and connections
+        this.marqueeGraphics = new Graphics();
+        this.marqueeGraphics.zIndex = 2;
+        this.contentContainer.addChild(this.marqueeGraphics);
+
+        const deleteSelection = () => {
+            if (this.selected.size === 0) {
+                return false;
+            }
+            this.deleteSelection();
+            return true;
+        };
+        this.disposeInputBindings = [
+            inputManager.registerKey({ key: 'Delete', handler: deleteSelection }),
+            inputManager.registerKey({ key: 'Backspace', handler: deleteSelection }),
+            inputManager.registerKey({
+                key: 'Escape',
+                handler: () => {
+                    if (this.selected.size === 0) {
+                        return false;
+                    }
+                    this.clear();
+                    return true;
+                }
+            }),
+            // Shift+drag on the background draws a marquee instead of panning
+            inputManager.registerBackgroundGesture({
+                matches: (e) => e.shiftKey,
+                start: (e) => this.beginMarquee(e.global)
+            })
+        ];
+    }
+
+    /** Hooks a node's title bar drag into selection and group moves. */
+    public attachNode(node: BaseNode) {
+        node.on('dragStart', (e: PointerEvent) => this.onNodeDragStart(node, e));
+        node.on('moved', () => this.onNodeMoved(node));
+        node.on('dragEnd', () => this.onNodeDragEnd(node));
+    }
+
+    /** Drops a node that is leaving the canvas from the selection. */
+    public detachNode(node: BaseNode) {
+        if (this.groupDrag?.starts.has(node)) {
+            this.groupDrag = null;
+        }
+        if (this.selected.delete(node)) {
+            node.setSelected(false);
+            this.emitChanged();
+        }
+    }
+
+    public getSelection(): BaseNode[] {
+        return [...this.selected];
+    }
+
+    /**
+     * True while a selected node is being dragged together with the rest of
+     * the selection.  Per-move persistence is skipped meanwhile; the final
+     * positions are written in one batch when the drag ends.
+     */
+    public get isGroupDragging(): boolean {
+        return this.groupDrag !== null;
+    }
+
+    public select(nodes: BaseNode[], additive: boolean = false) {
+        if (!additive) {
+            this.setSelection(new Set(nodes));
+        } else {
+            this.setSelection(new Set([...this.selected, ...nodes]));
+        }
+    }
+
+    public toggle(node: BaseNode) {
+        const next = new Set(this.selected);
+        if (next.has(node)) {
+            next.delete(node);
+        } else {
+            next.add(node);
+        }
+        this.setSelection(next);
+    }
+
+    public clear() {
+        this.setSelection(new Set());
+    }
+
+    private setSelection(next: Set<BaseNode>) {
+        let changed = next.size !== this.selected.size;
+        for (const node of this.selected) {
+            if (!next.has(node)) {
+                node.setSelected(false);
+                changed = true;
+            }
+        }
+        for (const node of next) {
+            if (!node.isSelected) {
+                node.setSelected(true);
+            }
+        }
+        this.selected = next;
+        if (changed) {
+            this.emitChanged();
+        }
+    }
+
+    private emitChanged() {
+        this.emit('selectionChanged', this.getSelection());
+    }
+
+    // -------------------------------------------------------------------------
+    // Marquee
+    // -------------------------------------------------------------------------
+
+    /**
+     * Starts a marquee at a screen position.  Nodes it touches are added to
+     * the selection that existed when it started.
+     */
+    public beginMarquee(global: Point) {
+        this.marquee = {
+            start: this.contentContainer.toLocal(global),
+            base: new Set(this.selected)
+        };
+        // Track on window so the marquee keeps updating over DOM nodes
+        window.addEventListener('pointermove', this.boundOnMarqueeMove);
+        window.addEventListener('pointerup', this.boundOnMarqueeEnd);
+    }
+
+    private onMarqueeMove(e: PointerEvent) {
+        if (!this.marquee) {
+            return;
+        }
+        const current = this.contentContainer.toLocal({ x: e.clientX, y: e.clientY });
+        const { start } = this.marquee;
+        const rect = new Rectangle(
+            Math.min(start.x, current.x),
+            Math.min(start.y, current.y),
+            Math.abs(current.x - start.x),
+            Math.abs(current.y - start.y)
+        );
+
+        // Keep the outline one screen pixel wide regardless of zoom
+        const scale = this.contentContainer.scale.x || 1;
+        this.marqueeGraphics
+            .clear()
+            .rect(rect.x, rect.y, rect.width, rect.height)
+            .fill({ color: 0xf0b429, alpha: 0.08 })
+            .stroke({ width: 1 / scale, color: 0xf0b429 });
+
+        const touched = getOverlappingNodes(rect, this.host.getNodes()).map(o => o.node as BaseNode);
+        this.setSelection(new Set([...this.marquee.base, ...touched]));
+    }
+
+    private onMarqueeEnd() {
+        this.marquee = null;
+        this.marqueeGraphics.clear();
+        window.removeEventListener('pointermove', this.boundOnMarqueeMove);
+        window.removeEventListener('pointerup', this.boundOnMarqueeEnd);
+    }
+
+    // -------------------------------------------------------------------------
+    // Group operations
+    // -------------------------------------------------------------------------
+
+    private onNodeDragStart(node: BaseNode, e: PointerEvent) {
+        if (e.shiftKey) {
+            this.toggle(node);
+        } else if (!node.isSelected) {
+            // Dragging an unselected node on its own drops the selection
+            this.clear();
+        }
+
+        if (node.isSelected && this.selected.size > 1) {
+            const starts = new Map<BaseNode, Point>();
+            for (const selected of this.selected) {
+                starts.set(selected, { x: selected.x, y: selected.y });
+            }
+            this.groupDrag = { leader: node, starts };
+        }
+    }
+
+    private onNodeMoved(node: BaseNode) {
+        if (!this.groupDrag || this.groupDrag.leader !== node) {
+            return;
+        }
+        const leaderStart = this.groupDrag.starts.get(node)!;
+        const dx = node.x - leaderStart.x;
+        const dy = node.y - leaderStart.y;
+        for (const [follower, start] of this.groupDrag.starts) {
+            if (follower !== node) {
+                follower.moveTo(start.x + dx, start.y + dy);
+            }
+        }
+    }
+
+    private onNodeDragEnd(node: BaseNode) {
+        if (!this.groupDrag || this.groupDrag.leader !== node) {
+            return;
+        }
+        const moved = [...this.groupDrag.starts.keys()];
+        this.groupDrag = null;
+        this.appStateManager.batch(() => {
+            for (const n of moved) {
+                this.host.persistNodeLayout(n, { x: n.x, y: n.y });
+            }
+        });
+    }
+
+    /**
+     * Removes every selected node from the canvas, unless the user cancels
+     * closing an editor with unsaved changes.
+     */
+    public async deleteSelection() {
+        const nodes = this.getSelection();
+        if (nodes.length === 0 || !await this.host.confirmRemoval(nodes)) {
+            return;
+        }
+        // Nodes may have been closed while the user was asked
+        const remaining = nodes.filter(node => this.host.getNodes().includes(node));
+        this.appStateManager.batch(() => {
+            for (const node of remaining) {
+                this.host.removeNode(node);
+            }
+        });
+    }
+
+    /** Lines the selected nodes up on the selection's edge or center. */
+    public align(mode: AlignMode) {
+        const nodes = this.getSelection();
+        if (nodes.length < 2) {
+            return;
+        }
+
+        const left = Math.min(...nodes.map(n => n.x));
+        const right = Math.max(...nodes.map(n => n.x + n.width));
+        const top = Math.min(...nodes.map(n => n.y));
+        const bottom = Math.max(...nodes.map(n => n.y + n.height));
+
+        this.appStateManager.batch(() => {
+            for (const node of nodes) {
+                let { x, y } = node;
+                switch (mode) {
+                    case 'left': x = left; break;
+                    case 'center': x = (left + right) / 2 - node.width / 2; break;
+                    case 'right': x = right - node.width; break;
+                    case 'top': y = top; break;
+                    case 'middle': y = (top + bottom) / 2 - node.height / 2; break;
+                    case 'bottom': y = bottom - node.height; break;
+                }
+                node.moveTo(x, y);
+            }
+        });
+    }
+
+    public destroy() {
+        this.onMarqueeEnd();
+        this.disposeInputBindings.forEach(dispose => dispose());
+        this.marqueeGraphics.destroy();
+        this.removeAllListeners();
+    }
+}
@@ -1 +1,465 @@
-export abstract class BaseNode { }
+import { DOMContainer, Rectangle } from 'pixi.js';
+import { MaskManager, type MaskProvider } from '../core/MaskManager';
+import { type NodeData } from '../../shared/types/models';
+
+/** The kinds of node that can live on the canvas. */
+export type NodeType = NodeData['type'];
+
+/**
+ * Options for creating a BaseNode
+ */
+export interface BaseNodeOptions {
+    /** CSS class of the wrapper element (must match the node's SCSS file). */
+    className: string;
+    /** CSS class of the title bar element (must match the node's SCSS file). */
+    titleBarClassName: string;
+    width: number;
+    height: number;
+    minWidth: number;
+    minHeight: number;
+}
+
+/**
+ * Size and position of a node, in world coordinates.
+ */
+export interface NodeBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Base class for everything that lives on the canvas as a framed DOM node.
+ *
+ * Provides the shared chrome and interaction: a wrapper with a draggable
+ * title bar, 8-direction resizing, z-ordering across all node types, and
+ * the MaskProvider bounds that punch holes in the grid.  Subclasses fill the
+ * title bar and body, and lay out their content in `layoutContent()`.
+ *
+ * Emits `moved`, `resized`, `indexChanged`, `close`, `dragStart` (with the
+ * pointer event), `dragEnd` and `connectionRequested` (with an optional
+ * editor line range).
+ */
+export abstract class BaseNode extends DOMContainer implements MaskProvider {
+    /** Highest z-index handed out so far, shared by all node types so they stack in one order. */
+    private static globalMaxZIndex: number = 10;
+
+    public abstract readonly nodeType: NodeType;
+
+    protected wrapper: HTMLDivElement;
+    protected titleBarDiv: HTMLDivElement;
+    protected borderThickness: number = 5;
+    protected titleHeight: number = 30;
+    protected width_: number;
+    protected height_: number;
+    protected readonly minWidth: number;
+    protected readonly minHeight: number;
+    protected maskManager: MaskManager;
+    private isDragging: boolean = false;
+    private dragOffset: { x: number; y: number } = { x: 0, y: 0 };
+    private isResizing: boolean = false;
+    private selected: boolean = false;
+    private resizeDirection: string | null = null;
+    private startMousePosition: { x: number; y: number } | null = null;
+    private startResizeBounds: NodeBounds | null = null;
+    private boundOnGlobalPointerMove = this.onGlobalPointerMove.bind(this);
+    private boundOnGlobalPointerUp = this.onGlobalPointerUp.bind(this);
+
+    constructor(maskManager: MaskManager, options: BaseNodeOptions) {
+        super();
+        this.maskManager = maskManager;
+        this.width_ = options.width;
+        this.height_ = options.height;
+        this.minWidth = options.minWidth;
+        this.minHeight = options.minHeight;
+        this.eventMode = 'static';
+
+        // Register as a provider of mask regions (holes)
+        this.maskManager.registerProvider(this);
+
+        // Wrapper
+        this.wrapper = document.createElement('div');
+        this.wrapper.className = options.className;
+        this.wrapper.style.width = `${this.width_}px`;
+        this.wrapper.style.height = `${this.height_}px`;
+        this.wrapper.style.borderWidth = `${this.borderThickness}px`;
+
+        this.element = this.wrapper;
+
+        // Title Bar
+        this.titleBarDiv = document.createElement('div');
+        this.titleBarDiv.className = options.titleBarClassName;
+        this.titleBarDiv.style.height = `${this.titleHeight}px`;
+        this.titleBarDiv.style.lineHeight = `${this.titleHeight}px`;
+        this.wrapper.appendChild(this.titleBarDiv);
+
+        // Drag via the title bar
+        this.titleBarDiv.addEventListener('pointerdown', this.onDragStart.bind(this));
+        this.titleBarDiv.addEventListener('pointerup', this.onDragEnd.bind(this));
+        this.titleBarDiv.addEventListener('pointermove', this.onDragMove.bind(this));
+
+        // Resize listeners on wrapper
+        this.wrapper.addEventListener('pointermove', this.onWrapperPointerMove.bind(this));
+        this.wrapper.addEventListener('pointerdown', this.onWrapperPointerDown.bind(this));
+        // Use window for move/up to catch events outside the wrapper
+        window.addEventListener('pointermove', this.boundOnGlobalPointerMove);
+        window.addEventListener('pointerup', this.boundOnGlobalPointerUp);
+    }
+
+    /**
+     * Stable identifier used by CanvasManager and NodeLayoutManager
+     * (the file path for editors, a generated id otherwise).
+     */
+    public abstract getNodeId(): string;
+
+    /**
+     * Sizes the node's inner elements to the current `width_`/`height_`.
+     * Called whenever the node is resized.
+     */
+    protected abstract layoutContent(): void;
+
+    /**
+     * Applies the current size to the wrapper and lays out the content.
+     * Subclasses call this once their DOM is built.
+     */
+    protected applySize() {
+        this.wrapper.style.width = `${this.width_}px`;
+        this.wrapper.style.height = `${this.height_}px`;
+        this.layoutContent();
+    }
+
+    /**
+     * Adds a codicon button to the title bar's button group.  Pointer events
+     * on the button do not start a title bar drag.
+     */
+    protected createTitleBarButton(container: Element, className: string, icon: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = className;
+        button.title = title;
+        button.innerHTML = `<i class="codicon codicon-${icon}"></i>`;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        // Stop pointerdown to prevent dragging when clicking the button
+        button.addEventListener('pointerdown', (e) => e.stopPropagation());
+        container.appendChild(button);
+        return button;
+    }
+
+    protected setAlpha(alpha: number) {
+        this.alpha = alpha;
+    }
+
+    private onDragStart(e: PointerEvent) {
+        if (e.button !== 0) {
+            return; // Only drag with left mouse button
+        }
+        this.isDragging = true;
+        this.titleBarDiv.setPointerCapture(e.pointerId);
+        this.titleBarDiv.style.cursor = 'grabbing';
+
+        const localPoint = this.toLocal({ x: e.clientX, y: e.clientY });
+        this.dragOffset = { x: localPoint.x, y: localPoint.y };
+
+        this.setAlpha(0.8);
+
+        // Bring to front
+        this.bringToFront();
+
+        this.emit('dragStart', e);
+        e.stopPropagation();
+    }
+
+    private onDragEnd(e: PointerEvent) {
+        if (!this.isDragging) {
+            return;
+        }
+
+        this.isDragging = false;
+        this.titleBarDiv.releasePointerCapture(e.pointerId);
+        this.titleBarDiv.style.cursor = 'grab';
+        this.setAlpha(1);
+        this.emit('dragEnd');
+    }
+
+    private onDragMove(e: PointerEvent) {
+        if (this.isDragging && this.parent) {
+            const parentPoint = this.parent.toLocal({ x: e.clientX, y: e.clientY });
+            this.x = parentPoint.x - this.dragOffset.x;
+            this.y = parentPoint.y - this.dragOffset.y;
+            this.emit('moved');
+        }
+    }
+
+    private getResizeDirection(x: number, y: number): string | null {
+        // thresholdOutside: how many screen pixels OUTSIDE the box to detect
+        // thresholdInside: how many world pixels INSIDE the box to detect (the border itself)
+        const thresholdOutsideScreen = 15;
+        const worldScale = this.worldTransform.a || 1;
+        const thresholdOutside = thresholdOutsideScreen / worldScale;
+        const thresholdInside = this.borderThickness;
+
+        const w = this.width_;
+        const h = this.height_;
+
+        let v_dir = '';
+        let h_dir = '';
+
+        // Check if we are altogether too far from the node
+        if (x < -thresholdOutside || x > w + thresholdOutside || y < -thresholdOutside || y > h + thresholdOutside) {
+            return null;
+        }
+
+        // Vertical directions: Top edge (-thresholdOutside to border) or Bottom edge (h - border to h + thresholdOutside)
+        if (y >= -thresholdOutside && y <= thresholdInside) {
+            v_dir = 'n';
+        } else if (y >= h - thresholdInside && y <= h + thresholdOutside) {
+            v_dir = 's';
+        }
+
+        // Horizontal directions: Left edge (-thresholdOutside to border) or Right edge (w - border to w + thresholdOutside)
+        if (x >= -thresholdOutside && x <= thresholdInside) {
+            h_dir = 'w';
+        } else if (x >= w - thresholdInside && x <= w + thresholdOutside) {
+            h_dir = 'e';
+        }
+
+        return (v_dir || h_dir) ? v_dir + h_dir : null;
+    }
+
+    private onWrapperPointerMove(e: PointerEvent) {
+        if (this.isResizing || this.isDragging) {
+            return;
+        }
+
+        const localPoint = this.toLocal({ x: e.clientX, y: e.clientY });
+        const direction = this.getResizeDirection(localPoint.x, localPoint.y);
+
+        if (direction) {
+            this.wrapper.style.cursor = `${direction}-resize`;
+        } else {
+            this.wrapper.style.cursor = 'default';
+        }
+    }
+
+    private onWrapperPointerDown(e: PointerEvent) {
+        if (this.isDragging || e.button !== 0) {
+            return; // Only resize with left mouse button
+        }
+
+        const localPoint = this.toLocal({ x: e.clientX, y: e.clientY });
+        const direction = this.getResizeDirection(localPoint.x, localPoint.y);
+
+        if (direction) {
+            this.isResizing = true;
+            this.resizeDirection = direction;
+            this.startMousePosition = { x: e.clientX, y: e.clientY };
+            this.startResizeBounds = {
+                width: this.width_,
+                height: this.height_,
+                x: this.x,
+                y: this.y
+            };
+            this.wrapper.setPointerCapture(e.pointerId);
+            // Lets CSS disable pointer events on embedded content (e.g. iframes) mid-resize
+            this.wrapper.classList.add('resizing');
+
+            // Bring to front
+            this.bringToFront();
+
+            e.stopPropagation();
+        }
+    }
+
+    private onGlobalPointerMove(e: PointerEvent) {
+        if (!this.isResizing || !this.startResizeBounds || !this.startMousePosition || !this.resizeDirection || !this.parent) {
+            return;
+        }
+
+        const start = this.startResizeBounds;
+        const direction = this.resizeDirection;
+        const dx = (e.clientX - this.startMousePosition.x) / this.parent.scale.x;
+        const dy = (e.clientY - this.startMousePosition.y) / this.parent.scale.y;
+
+        let proposedW = start.width;
+        let proposedH = start.height;
+
+        if (direction.includes('e')) {
+            proposedW = start.width + dx;
+        } else if (direction.includes('w')) {
+            proposedW = start.width - dx;
+        }
+        if (direction.includes('s')) {
+            proposedH = start.height + dy;
+        } else if (direction.includes('n')) {
+            proposedH = start.height - dy;
+        }
+
+        const size = this.constrainSize(
+            Math.max(this.minWidth, proposedW),
+            Math.max(this.minHeight, proposedH),
+            direction,
+            start
+        );
+
+        // Keep the edge opposite the dragged one anchored
+        this.x = direction.includes('w') ? start.x + (start.width - size.width) : start.x;
+        this.y = direction.includes('n') ? start.y + (start.height - size.height) : start.y;
+        this.resize(size.width, size.height);
+        this.emit('moved'); // Positional change during resize
+    }
+
+    /**
+     * Hook for subclasses to adjust a proposed resize (already clamped to the
+     * minimum size), e.g. to lock the aspect ratio.
+     * @param width - Proposed width.
+     * @param height - Proposed height.
+     * @param direction - Resize direction (`n`, `se`, `w`, ...).
+     * @param start - Bounds of the node when the resize started.
+     */
+    protected constrainSize(width: number, height: number, direction: string, start: NodeBounds): { width: number; height: number } {
+        return { width, height };
+    }
+
+    private onGlobalPointerUp(e: PointerEvent) {
+        if (this.isResizing) {
+            this.isResizing = false;
+            this.resizeDirection = null;
+            this.startResizeBounds = null;
+            this.startMousePosition = null;
+            this.wrapper.releasePointerCapture(e.pointerId);
+            this.wrapper.classList.remove('resizing');
+            this.wrapper.style.cursor = 'default';
+        }
+    }
+
+    /**
+     * Moves the node to a world position and notifies listeners, as a drag would.
+     */
+    public moveTo(x: number, y: number) {
+        this.x = x;
+        this.y = y;
+        this.emit('moved');
+    }
+
+    public resize(w: number, h: number) {
+        this.width_ = w;
+        this.height_ = h;
+        this.applySize();
+        this.emit('resized');
+    }
+
+    /**
+     * Get the current width of the node
+     */
+    public get width(): number {
+        return this.width_;
+    }
+
+    /**
+     * Get the current height of the node
+     */
+    public get height(): number {
+        return this.height_;
+    }
+
+    /**
+     * The z-index the next `bringToFront()` call will stay below.
+     */
+    public static get topZIndex(): number {
+        return BaseNode.globalMaxZIndex;
+    }
+
+    public setZIndex(z: number) {
+        this.zIndex = z;
+        this.wrapper.style.zIndex = z.toString();
+        // Keep the global counter at the high-water mark so new nodes always
+        // open above restored ones when bringToFront() is called next.
+        if (z > BaseNode.globalMaxZIndex) {
+            BaseNode.globalMaxZIndex = z;
+        }
+    }
+
+    public bringToFront() {
+        BaseNode.globalMaxZIndex++;
+        this.setZIndex(BaseNode.globalMaxZIndex);
+        if (this.parent) {
+            this.parent.addChild(this);
+        }
+        this.emit('indexChanged');
+    }
+
+    public get isSelected(): boolean {
+        return this.selected;
+    }
+
+    /** Shows or hides the selection outline. */
+    public setSelected(selected: boolean) {
+        this.selected = selected;
+        this.wrapper.classList.toggle('selected', selected);
+    }
+
+    protected onClose() {
+        this.emit('close');
+    }
+
+    /**
+     * Asks the ConnectionManager to start drawing a connection from this node.
+     * @param lineRange - Optional line range to anchor to (editor nodes only).
+     */
+    protected requestConnection(lineRange?: { startLineNumber: number; endLineNumber: number }) {
+        this.emit('connectionRequested', lineRange);
+    }
+
+    public getMaskLocalBounds(): Rectangle {
+        return new Rectangle(this.x, this.y, this.width_, this.height_);
+    }
+
+    public getMaskGlobalBounds(): Rectangle[] {
+        return this.getGlobalBoundsList(0);
+    }
+
+    public getInteractionGlobalBounds(): Rectangle[] {
+        // Use an 15px buffer for interaction to allow for resizing just outside the node
+        // as defined in our getResizeDirection logic.
+        return this.getGlobalBoundsList(15);
+    }
+
+    /**
+     * Screen-space regions covered by this node.  Subclasses may append extra
+     * regions for DOM that overflows the node (menus, hovers, ...).
+     * @param nodeBuffer - Extra margin around the node, in screen pixels.
+     */
+    protected getGlobalBoundsList(nodeBuffer: number): Rectangle[] {
+        const worldScale = this.worldTransform.a || 1;
+        // The buffer is in screen pixels, so we convert it to world space for local toGlobal calls
+        const localBuffer = nodeBuffer / worldScale;
+
+        // toGlobal handles the parent transforms (zoom/pan) for us.
+        // Nodes are never rotated, so the two corners are enough.
+        const topLeft = this.toGlobal({ x: -localBuffer, y: -localBuffer });
+        const bottomRight = this.toGlobal({ x: this.width_ + localBuffer, y: this.height_ + localBuffer });
+
+        return [
+            new Rectangle(
+                Math.min(topLeft.x, bottomRight.x),
+                Math.min(topLeft.y, bottomRight.y),
+                Math.abs(bottomRight.x - topLeft.x),
+                Math.abs(bottomRight.y - topLeft.y)
+            )
+        ];
+    }
+
+    public get isInteracting(): boolean {
+        return this.isDragging || this.isResizing;
+    }
+
+    public override destroy(options?: any) {
+        this.maskManager.unregisterProvider(this);
+        window.removeEventListener('pointermove', this.boundOnGlobalPointerMove);
+        window.removeEventListener('pointerup', this.boundOnGlobalPointerUp);
+        super.destroy(options);
+    }
+}
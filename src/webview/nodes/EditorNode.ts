@@ -1,8 +1,12 @@
-import { Container, DOMContainer, Graphics, FederatedPointerEvent, Rectangle } from 'pixi.js';
+import { Rectangle } from 'pixi.js';
 import * as monaco from 'monaco-editor';
 import { MessageClient } from '../core/MessageClient';
-import { MaskManager, type MaskProvider } from '../core/MaskManager';
+import { MaskManager } from '../core/MaskManager';
 import { ModelManager, type IModelReference } from '../core/ModelManager';
+import { EditorTheme } from '../core/EditorTheme';
+import { BaseNode } from './BaseNode';
+import { type HierarchyKind } from '../features/HierarchyManager';
+import { type DocumentState } from '../../shared/types/messages';
 
 /**
  * Options for creating an EditorNode
@@ -12,132 +16,89 @@ export interface EditorNodeOptions {
     initialHeight?: number;
     initialDiagnostics?: any[];
     initialSelection?: any;
+    /** State of the document the initial content is from, used to sync edits */
+    document?: DocumentState;
 }
 
-export class EditorNode extends DOMContainer implements MaskProvider {
-    private wrapper: HTMLDivElement;
+/** Monaco's `editor.contrib.messageController`, which isn't in its public API. */
+interface MessageController extends monaco.editor.IEditorContribution {
+    showMessage(message: string, position: monaco.IPosition): void;
+}
+
+export class EditorNode extends BaseNode {
+    public readonly nodeType = 'editor';
     private titleBarDivTextColor: string = '#ffffff';
-    private titleBarDiv: HTMLDivElement;
     private monacoDiv: HTMLDivElement;
     private monacoInstance: monaco.editor.IStandaloneCodeEditor;
-    private borderThickness: number = 5;
-    private width_: number = 400;
-    private height_: number = 600;
-    private titleHeight: number = 30;
     private uri: string;
-    private isUpdatingFromBackend: boolean = false;
     private filePath: string;
     private messageClient: MessageClient;
-    private maskManager: MaskManager;
     private modelRef: IModelReference;
-    private isDragging: boolean = false;
-    private dragOffset: { x: number; y: number } = { x: 0, y: 0 };
-    private isResizing: boolean = false;
-    private resizeDirection: string | null = null;
-    private startMousePosition: { x: number; y: number } | null = null;
-    private startResizeBounds: { x: number; y: number; width: number; height: number } | null = null;
-    private static globalMaxZIndex: number = 10;
-    private boundOnGlobalPointerMove = this.onGlobalPointerMove.bind(this);
-    private boundOnGlobalPointerUp = this.onGlobalPointerUp.bind(this);
+    private dirtyStateListener: monaco.IDisposable;
     private static lastContextMenuTriggeredNode: EditorNode | null = null;
 
     constructor(file: string, content: string, uri: string, messageClient: MessageClient, maskManager: MaskManager, options: EditorNodeOptions = {}) {
-        super();
+        super(maskManager, {
+            className: 'editor-node', // IMPORTANT: This must match the class in the SCSS file
+            titleBarClassName: 'editor-title-bar', // IMPORTANT: This must match the class in the SCSS file
+            width: options.initialWidth ?? 400,
+            height: options.initialHeight ?? 600,
+            minWidth: 200,
+            minHeight: 100
+        });
         this.messageClient = messageClient;
-        this.maskManager = maskManager;
         this.filePath = file;
         this.uri = uri;
-        this.eventMode = 'static';
-
-        // Apply initial size from options if provided
-        if (options.initialWidth !== undefined) {
-            this.width_ = options.initialWidth;
-        }
-        if (options.initialHeight !== undefined) {
-            this.height_ = options.initialHeight;
-        }
-
-        // Register as a provider of mask regions (holes)
-        this.maskManager.registerProvider(this);
-
-        // Wrapper
-        this.wrapper = document.createElement('div');
-        this.wrapper.className = 'editor-node'; // IMPORTANT: This must match the class in the SCSS file
-        this.wrapper.style.width = `${this.width_}px`;
-        this.wrapper.style.height = `${this.height_}px`;
-        this.wrapper.style.borderWidth = `${this.borderThickness}px`;
 
-        this.element = this.wrapper;
-
-        // Title Bar
-        this.titleBarDiv = document.createElement('div');
-        this.titleBarDiv.className = 'editor-title-bar'; // IMPORTANT: This must match the class in the SCSS file
         this.titleBarDiv.style.marginTop = `-${this.borderThickness / 2}px`; // Offset by half the border thickness to make titlebar align with border
-        this.titleBarDiv.style.width = `${this.width_ - this.borderThickness * 2}px`;
-        this.titleBarDiv.style.height = `${this.titleHeight}px`;
-        this.titleBarDiv.style.lineHeight = `${this.titleHeight}px`;
         this.titleBarDiv.style.color = this.titleBarDivTextColor;
 
         // Title Text - File Path
         const fileName = file.split('/').pop() || file;
         const dirName = file.includes('/') ? file.substring(0, file.lastIndexOf('/') + 1) : '';
-        const titleHtml = `<div class="editor-title-bar-title" title="${dirName}${fileName}">${fileName}</div>`;
-
-        // Codicon Buttons
-        const titlebarButtonsHtml = `<div class="editor-title-bar-buttons">
-            <button class="editor-title-bar-button editor-title-bar-native-button" title="Open in Native Editor">
-                <i class="codicon codicon-go-to-file"></i>
-            </button>
-            <button class="editor-title-bar-button editor-title-bar-close-button" title="Close">
-                <i class="codicon codicon-close"></i>
-            </button>
-        </div>`;
+        const titleHtml = `<div class="editor-title-bar-title" title="${dirName}${fileName}">${fileName}</div>`
+            + '<div class="editor-title-bar-dirty" title="Unsaved changes"></div>';
 
         // File Icon using local seti-ui assets
         const fileIconHtml = `<div class="editor-title-bar-icon icon" data-name="${fileName}"></div>`;
 
-        this.titleBarDiv.innerHTML = fileIconHtml + titleHtml + titlebarButtonsHtml;
-
-        // Add button event listeners
-        const titlebarNativeButton = this.titleBarDiv.querySelector('.editor-title-bar-native-button');
-        titlebarNativeButton?.addEventListener('click', (e) => {
-            e.stopPropagation();
-            this.openInNativeEditor();
-        });
-        titlebarNativeButton?.addEventListener('pointerdown', (e) => {
-            e.stopPropagation();
-        });
+        this.titleBarDiv.innerHTML = fileIconHtml + titleHtml + '<div class="editor-title-bar-buttons"></div>';
 
-        const titlebarCloseButton = this.titleBarDiv.querySelector('.editor-title-bar-close-button');
-        titlebarCloseButton?.addEventListener('click', (e) => {
-            e.stopPropagation();
-            this.onClose();
-        });
-        // Also stop pointerdown to prevent dragging when clicking the close button
-        titlebarCloseButton?.addEventListener('pointerdown', (e) => {
-            e.stopPropagation();
+        // Codicon Buttons
+        const buttons = this.titleBarDiv.querySelector('.editor-title-bar-buttons')!;
+        this.createTitleBarButton(buttons, 'editor-title-bar-button editor-title-bar-native-button', 'go-to-file', 'Open in Native Editor', () => this.openInNativeEditor());
+        this.createTitleBarButton(buttons, 'editor-title-bar-button editor-title-bar-connect-button', 'arrow-right', 'Connect To… (anchored to the selected lines, if any)', () => {
+            this.requestConnection(this.getSelectedLineRange());
         });
-
-        this.wrapper.appendChild(this.titleBarDiv);
+        this.createTitleBarButton(buttons, 'editor-title-bar-button editor-title-bar-close-button', 'close', 'Close', () => this.onClose());
 
         // Setup Monaco Editor
         this.monacoDiv = document.createElement('div');
-        this.monacoDiv.style.width = `${this.width_ - this.borderThickness * 2}px`;
-        this.monacoDiv.style.height = `${this.height_ - this.titleHeight - this.borderThickness * 2 + this.borderThickness / 2}px`; // Offset by half the border thickness to make editor align with border
         this.monacoDiv.style.pointerEvents = 'auto'; // Re-enable for the editor itself
 
         // Get or create model reference through ModelManager
         const modelManager = ModelManager.getInstance();
-        this.modelRef = modelManager.getOrCreateModelReference(uri, content, this.filePath);
+        this.modelRef = modelManager.getOrCreateModelReference(uri, content, this.filePath, options.document);
+
+        // Dirty dot in the title bar
+        this.setDirty(this.modelRef.isDirty);
+        this.dirtyStateListener = modelManager.onDirtyStateChanged((changedUri, isDirty) => {
+            if (changedUri === this.modelRef.uri.toString()) {
+                this.setDirty(isDirty);
+            }
+        });
 
         // Setup Monaco Editor
         // Note: "Go to Definition" navigation is handled globally by LSPBridge.registerEditorOpener()
         this.monacoInstance = monaco.editor.create(this.monacoDiv, {
             model: this.modelRef.model,
-            theme: 'vs-dark',
+            theme: EditorTheme.current,
+            'semanticHighlighting.enabled': true,
             automaticLayout: true,
             minimap: { enabled: false },
             glyphMargin: true,
+            // The host decides per file, following VS Code's `editor.formatOnType`
+            formatOnType: true,
             // Ensure overview ruler (error/warning indicators) is on the right
             overviewRulerLanes: 3,
             overviewRulerBorder: false,
@@ -150,14 +111,7 @@ export class EditorNode extends DOMContainer implements MaskProvider {
             },
         });
         this.wrapper.appendChild(this.monacoDiv);
-
-        // Listen for changes and send to backend
-        this.monacoInstance.onDidChangeModelContent(() => {
-            if (this.isUpdatingFromBackend) {
-                return;
-            }
-            this.onContentChanged();
-        });
+        this.applySize();
 
         // Toggle breakpoints on gutter click
         this.monacoInstance.onMouseDown((e) => {
@@ -169,22 +123,48 @@ export class EditorNode extends DOMContainer implements MaskProvider {
             }
         });
 
-        // Set up interaction
-        this.titleBarDiv.addEventListener('pointerdown', this.onDragStart.bind(this));
-        this.titleBarDiv.addEventListener('pointerup', this.onDragEnd.bind(this));
-        this.titleBarDiv.addEventListener('pointermove', this.onDragMove.bind(this));
-
-        // Resize listeners on wrapper
-        this.wrapper.addEventListener('pointermove', this.onWrapperPointerMove.bind(this));
-        this.wrapper.addEventListener('pointerdown', this.onWrapperPointerDown.bind(this));
-        // Use window for move/up to catch events outside the wrapper
-        window.addEventListener('pointermove', this.boundOnGlobalPointerMove);
-        window.addEventListener('pointerup', this.boundOnGlobalPointerUp);
+        // Start a connection anchored to the selected lines (or the cursor line)
+        this.monacoInstance.addAction({
+            id: 'infinite-edit.connectLines',
+            label: 'Connect Lines To…',
+            contextMenuGroupId: 'navigation',
+            contextMenuOrder: 100,
+            run: (editor) => {
+                const lineNumber = editor.getPosition()?.lineNumber ?? 1;
+                this.requestConnection(this.getSelectedLineRange() ?? { startLineNumber: lineNumber, endLineNumber: lineNumber });
+            }
+        });
 
+        // Lay out the callers (or callees) of the function under the cursor as a tree
+        this.monacoInstance.addAction({
+            id: 'infinite-edit.showCallHierarchy',
+            label: 'Show Call Hierarchy',
+            keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyH],
+            contextMenuGroupId: 'navigation',
+            contextMenuOrder: 101,
+            run: (editor) => this.requestHierarchy(editor.getPosition(), 'incoming')
+        });
+        this.monacoInstance.addAction({
+            id: 'infinite-edit.showOutgoingCalls',
+            label: 'Show Outgoing Calls',
+            contextMenuGroupId: 'navigation',
+            contextMenuOrder: 102,
+            run: (editor) => this.requestHierarchy(editor.getPosition(), 'outgoing')
+        });
+        // Lay out the supertypes and subtypes of the class or interface under the cursor
+        this.monacoInstance.addAction({
+            id: 'infinite-edit.showTypeHierarchy',
+            label: 'Show Type Hierarchy',
+            contextMenuGroupId: 'navigation',
+            contextMenuOrder: 103,
+            run: (editor) => this.requestHierarchy(editor.getPosition(), 'types')
+        });
 
-        // Add Save Command (Ctrl+S)
-        this.monacoInstance.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-            this.save();
+        // Connections anchored to lines follow them as the editor scrolls
+        this.monacoInstance.onDidScrollChange((e) => {
+            if (e.scrollTopChanged) {
+                this.emit('scrolled');
+            }
         });
 
         // Set up context menu tracking
@@ -208,29 +188,12 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         }
     }
 
-    private contentChangeTimeout: any = null;
-    private onContentChanged() {
-        if (this.contentChangeTimeout) {
-            clearTimeout(this.contentChangeTimeout);
-        }
-
-        this.contentChangeTimeout = setTimeout(() => {
-            const content = this.monacoInstance.getValue();
-            this.messageClient.send('updateFile', {
-                file: this.filePath,
-                content: content
-            });
-            this.contentChangeTimeout = null;
-        }, 300); // 300ms debounce
-    }
-
-    public updateContent(content: string) {
-        if (this.monacoInstance.getValue() === content) {
-            return;
-        }
-        this.isUpdatingFromBackend = true;
-        this.monacoInstance.setValue(content);
-        this.isUpdatingFromBackend = false;
+    /**
+     * Replaces the content with the document's text at `document.version`.
+     * Edits made on the canvas since are kept in sync by ModelManager instead.
+     */
+    public updateContent(content: string, document?: DocumentState) {
+        ModelManager.getInstance().updateModelContent(this.uri, content, document);
     }
 
     public setDiagnostics(diagnostics: any[]) {
@@ -257,6 +220,21 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         }
     }
 
+    /**
+     * Shows a selection made in the native VS Code editor without taking
+     * keyboard focus, scrolling only if it is out of view.
+     */
+    public mirrorSelection(selection: any) {
+        const range = new monaco.Range(
+            selection.startLineNumber,
+            selection.startColumn,
+            selection.endLineNumber,
+            selection.endColumn
+        );
+        this.monacoInstance.setSelection(range);
+        this.monacoInstance.revealRangeInCenterIfOutsideViewport(range);
+    }
+
     private breakpointDecorations: string[] = [];
     public setBreakpoints(breakpoints: number[]) {
         const model = this.monacoInstance.getModel();
@@ -283,6 +261,21 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         });
     }
 
+    private requestHierarchy(position: monaco.Position | null, kind: HierarchyKind) {
+        if (position) {
+            this.emit('hierarchyRequested', { lineNumber: position.lineNumber, column: position.column }, kind);
+        }
+    }
+
+    /** Shows a message at the cursor, the way Monaco reports "No definition found". */
+    public showMessage(message: string) {
+        const controller = this.monacoInstance.getContribution<MessageController>('editor.contrib.messageController');
+        const position = this.monacoInstance.getPosition();
+        if (controller && position) {
+            controller.showMessage(message, position);
+        }
+    }
+
     private openInNativeEditor() {
         this.messageClient.send('openInNativeEditor', {
             file: this.filePath
@@ -293,202 +286,65 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         return this.filePath;
     }
 
-    private setAlpha(alpha: number) {
-        this.alpha = alpha;
+    public getNodeId(): string {
+        return this.filePath;
     }
 
-    private onDragStart(e: PointerEvent) {
-        if (e.button !== 0) {
-            return; // Only drag with left mouse button
-        }
-        this.isDragging = true;
-        this.titleBarDiv.setPointerCapture(e.pointerId);
-        this.titleBarDiv.style.cursor = 'grabbing';
-
-        const globalPoint = { x: e.clientX, y: e.clientY };
-        const localPoint = this.toLocal(globalPoint);
-        this.dragOffset = { x: localPoint.x, y: localPoint.y };
-
-        this.setAlpha(0.8);
-
-        // Bring to front
-        this.bringToFront();
-
-        e.stopPropagation();
+    /** The node's `infinite:` URI. */
+    public getUri(): string {
+        return this.uri;
     }
 
-    private onDragEnd(e: PointerEvent) {
-        if (!this.isDragging) {
-            return;
-        }
-
-        this.isDragging = false;
-        this.titleBarDiv.releasePointerCapture(e.pointerId);
-        this.titleBarDiv.style.cursor = 'grab';
-        this.setAlpha(1);
+    /** Whether the file has unsaved changes. */
+    public isDirty(): boolean {
+        return this.modelRef.isDirty;
     }
 
-    private onDragMove(e: PointerEvent) {
-        if (this.isDragging && this.parent) {
-            const globalPoint = { x: e.clientX, y: e.clientY };
-            const parentPoint = this.parent.toLocal(globalPoint);
-            this.x = parentPoint.x - this.dragOffset.x;
-            this.y = parentPoint.y - this.dragOffset.y;
-            this.emit('moved');
-        }
+    /** Whether the editor or one of its widgets (e.g. find) has keyboard focus. */
+    public hasFocus(): boolean {
+        return this.monacoInstance.hasWidgetFocus();
     }
 
-    private getResizeDirection(x: number, y: number): string | null {
-        // thresholdOutside: how many screen pixels OUTSIDE the box to detect
-        // thresholdInside: how many world pixels INSIDE the box to detect (the border itself)
-        const thresholdOutsideScreen = 15;
-        const worldScale = this.worldTransform.a || 1;
-        const thresholdOutside = thresholdOutsideScreen / worldScale;
-        const thresholdInside = this.borderThickness;
-
-        const w = this.width_;
-        const h = this.height_;
-
-        let v_dir = '';
-        let h_dir = '';
-
-        // Check if we are altogether too far from the node
-        if (x < -thresholdOutside || x > w + thresholdOutside || y < -thresholdOutside || y > h + thresholdOutside) {
-            return null;
-        }
-
-        // Vertical directions: Top edge (-thresholdOutside to border) or Bottom edge (h - border to h + thresholdOutside)
-        if (y >= -thresholdOutside && y <= thresholdInside) {
-            v_dir = 'n';
-        } else if (y >= h - thresholdInside && y <= h + thresholdOutside) {
-            v_dir = 's';
-        }
-
-        // Horizontal directions: Left edge (-thresholdOutside to border) or Right edge (w - border to w + thresholdOutside)
-        if (x >= -thresholdOutside && x <= thresholdInside) {
-            h_dir = 'w';
-        } else if (x >= w - thresholdInside && x <= w + thresholdOutside) {
-            h_dir = 'e';
-        }
-
-        return (v_dir || h_dir) ? v_dir + h_dir : null;
-    }
-
-
-    private onWrapperPointerMove(e: PointerEvent) {
-        if (this.isResizing || this.isDragging) {
-            return;
-        }
-
-        const localPoint = this.toLocal({ x: e.clientX, y: e.clientY });
-        const x = localPoint.x;
-        const y = localPoint.y;
-        const direction = this.getResizeDirection(x, y);
-
-        if (direction) {
-            this.wrapper.style.cursor = `${direction}-resize`;
-        } else {
-            this.wrapper.style.cursor = 'default';
-        }
-    }
-
-    private onWrapperPointerDown(e: PointerEvent) {
-        if (this.isDragging || e.button !== 0) {
-            return; // Only resize with left mouse button
-        }
-
-        const localPoint = this.toLocal({ x: e.clientX, y: e.clientY });
-        const x = localPoint.x;
-        const y = localPoint.y;
-        const direction = this.getResizeDirection(x, y);
-
-        if (direction) {
-            this.isResizing = true;
-            this.resizeDirection = direction;
-            this.startMousePosition = { x: e.clientX, y: e.clientY };
-            this.startResizeBounds = {
-                width: this.width_,
-                height: this.height_,
-                x: this.x,
-                y: this.y
-            };
-            this.wrapper.setPointerCapture(e.pointerId);
-
-            // Bring to front
-            this.bringToFront();
-
-            e.stopPropagation();
+    /**
+     * Lines covered by the current selection, or `undefined` when nothing is selected.
+     */
+    public getSelectedLineRange(): { startLineNumber: number; endLineNumber: number } | undefined {
+        const selection = this.monacoInstance.getSelection();
+        if (!selection || selection.isEmpty()) {
+            return undefined;
         }
+        // A selection ending at column 1 does not really include its last line
+        const endLineNumber = selection.endColumn === 1 && selection.endLineNumber > selection.startLineNumber
+            ? selection.endLineNumber - 1
+            : selection.endLineNumber;
+        return { startLineNumber: selection.startLineNumber, endLineNumber };
     }
 
-    private onGlobalPointerMove(e: PointerEvent) {
-        if (!this.isResizing || !this.startResizeBounds || !this.startMousePosition || !this.resizeDirection || !this.parent) {
-            return;
-        }
-
-        const dx = (e.clientX - this.startMousePosition.x) / this.parent.scale.x;
-        const dy = (e.clientY - this.startMousePosition.y) / this.parent.scale.y;
-
-        let newX = this.startResizeBounds.x;
-        let newY = this.startResizeBounds.y;
-        let newW = this.startResizeBounds.width;
-        let newH = this.startResizeBounds.height;
-
-        const minW = 200;
-        const minH = 100;
-
-        if (this.resizeDirection.includes('e')) {
-            newW = Math.max(minW, this.startResizeBounds.width + dx);
-        }
-        if (this.resizeDirection.includes('w')) {
-            const proposedW = this.startResizeBounds.width - dx;
-            if (proposedW >= minW) {
-                newW = proposedW;
-                newX = this.startResizeBounds.x + dx;
-            } else {
-                newW = minW;
-                newX = this.startResizeBounds.x + (this.startResizeBounds.width - minW);
-            }
-        }
-
-        if (this.resizeDirection.includes('s')) {
-            newH = Math.max(minH, this.startResizeBounds.height + dy);
-        }
-        if (this.resizeDirection.includes('n')) {
-            const proposedH = this.startResizeBounds.height - dy;
-            if (proposedH >= minH) {
-                newH = proposedH;
-                newY = this.startResizeBounds.y + dy;
-            } else {
-                newH = minH;
-                newY = this.startResizeBounds.y + (this.startResizeBounds.height - minH);
-            }
-        }
+    /**
+     * Vertical extent of a line range relative to the node's origin, clamped
+     * to the visible editor body (so off-screen lines pin to the top or bottom edge).
+     */
+    public getLineRangeOffsets(startLineNumber: number, endLineNumber: number): { top: number; bottom: number } {
+        const bodyTop = this.titleHeight + this.borderThickness / 2;
+        const bodyBottom = this.height_ - this.borderThickness;
+        const scrollTop = this.monacoInstance.getScrollTop();
+        const lineHeight = this.monacoInstance.getOption(monaco.editor.EditorOption.lineHeight);
+        const clamp = (y: number) => Math.max(bodyTop, Math.min(bodyBottom, y));
 
-        this.x = newX;
-        this.y = newY;
-        this.resize(newW, newH);
-        this.emit('moved'); // Positional change during resize
+        return {
+            top: clamp(bodyTop + this.monacoInstance.getTopForLineNumber(startLineNumber) - scrollTop),
+            bottom: clamp(bodyTop + this.monacoInstance.getTopForLineNumber(endLineNumber) + lineHeight - scrollTop)
+        };
     }
 
-    private onGlobalPointerUp(e: PointerEvent) {
-        if (this.isResizing) {
-            this.isResizing = false;
-            this.resizeDirection = null;
-            this.startResizeBounds = null;
-            this.startMousePosition = null;
-            this.wrapper.releasePointerCapture(e.pointerId);
-            this.wrapper.style.cursor = 'default';
-        }
+    /**
+     * Line number under a screen point, or `null` if the point is not over the text.
+     */
+    public getLineNumberAtClientPoint(clientX: number, clientY: number): number | null {
+        return this.monacoInstance.getTargetAtClientPoint(clientX, clientY)?.position?.lineNumber ?? null;
     }
 
-    public resize(w: number, h: number) {
-        this.width_ = w;
-        this.height_ = h;
-
-        this.wrapper.style.width = `${this.width_}px`;
-        this.wrapper.style.height = `${this.height_}px`;
-
+    protected layoutContent() {
         this.titleBarDiv.style.width = `${this.width_ - this.borderThickness * 2}px`;
 
         this.monacoDiv.style.width = `${this.width_ - this.borderThickness * 2}px`;
@@ -497,97 +353,64 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         if (this.monacoInstance) {
             this.monacoInstance.layout();
         }
-        this.emit('resized');
     }
 
-    /**
-     * Get the current width of the editor node
-     */
-    public get width(): number {
-        return this.width_;
-    }
-
-    /**
-     * Get the current height of the editor node
-     */
-    public get height(): number {
-        return this.height_;
-    }
-
-    public setZIndex(z: number) {
-        this.zIndex = z;
-        this.wrapper.style.zIndex = z.toString();
-        // Keep the global counter at the high-water mark so new nodes always
-        // open above restored ones when bringToFront() is called next.
-        if (z > EditorNode.globalMaxZIndex) {
-            EditorNode.globalMaxZIndex = z;
-        }
-    }
-
-    public bringToFront() {
-        EditorNode.globalMaxZIndex++;
-        this.setZIndex(EditorNode.globalMaxZIndex);
-        if (this.parent) {
-            this.parent.addChild(this);
-        }
-        this.emit('indexChanged');
-    }
-
-    private async save() {
+    /** @returns Whether the file was saved. */
+    public async save(): Promise<boolean> {
         try {
             await this.modelRef.save();
+            return true;
         } catch (e) {
             console.error('Failed to save file:', e);
+            this.showSaveError(String(e));
             this.messageClient.send('alert', {
                 message: `Failed to save ${this.filePath}: ${e}`
             });
+            return false;
         }
     }
 
-    private onClose() {
-        this.emit('close');
-    }
-
-    public getMaskLocalBounds(): Rectangle {
-        return new Rectangle(this.x, this.y, this.width_, this.height_);
+    private setDirty(isDirty: boolean) {
+        this.wrapper.classList.toggle('dirty', isDirty);
+        if (!isDirty) {
+            this.showSaveError(null);
+        }
     }
 
-    public getMaskGlobalBounds(): Rectangle[] {
-        return this.getGlobalBoundsList(0);
+    /**
+     * Marks the dirty dot red with the reason the last save failed, until
+     * the file is saved.  `null` clears it.
+     */
+    public showSaveError(error: string | null) {
+        this.wrapper.classList.toggle('save-failed', error !== null);
+        const dot = this.titleBarDiv.querySelector<HTMLElement>('.editor-title-bar-dirty');
+        if (dot) {
+            dot.title = error !== null ? `Save failed: ${error}` : 'Unsaved changes';
+        }
     }
 
-    public getInteractionGlobalBounds(): Rectangle[] {
-        // Use an 15px buffer for interaction to allow for resizing just outside the node
-        // as defined in our getResizeDirection logic.
-        return this.getGlobalBoundsList(15);
+    /**
+     * Closes the node, first asking whether to save or discard unsaved
+     * changes.  Stays open if the user cancels or saving fails.
+     */
+    protected override async onClose() {
+        if (this.isDirty()) {
+            const choice = await this.messageClient.sendRequest('confirmUnsavedChanges', { files: [this.filePath] });
+            if (choice === 'save') {
+                if (!await this.save()) {
+                    return;
+                }
+            } else if (choice === 'discard') {
+                await this.messageClient.sendRequest('revertFiles', { files: [this.filePath] });
+            } else {
+                return;
+            }
+        }
+        super.onClose();
     }
 
-    private getGlobalBoundsList(nodeBuffer: number): Rectangle[] {
-        const worldScale = this.worldTransform.a || 1;
-        // The buffer is in screen pixels, so we convert it to world space for local toGlobal calls
-        const localBuffer = nodeBuffer / worldScale;
-
-        // Since we are using PixiJS, toGlobal handles the parent transforms (like zoom/pan)
-        // for us. We calculate the Top-Left and Bottom-Right corners in global space.
-
-        // We use (0,0) as local top-left, offset by buffer
-        const topLeft = this.toGlobal({ x: -localBuffer, y: -localBuffer });
-
-        // And (width, height) as local bottom-right, offset by buffer
-        const bottomRight = this.toGlobal({ x: this.width_ + localBuffer, y: this.height_ + localBuffer });
-
-        // Note: toGlobal accounts for rotation too, but assuming axis-aligned for now since
-        // rectangles are axis-aligned. If rotated, we'd need min/max of 4 corners.
-        // EditorNodes are not rotated in this app.
-
-        const regions: Rectangle[] = [
-            new Rectangle(
-                Math.min(topLeft.x, bottomRight.x),
-                Math.min(topLeft.y, bottomRight.y),
-                Math.abs(bottomRight.x - topLeft.x),
-                Math.abs(bottomRight.y - topLeft.y)
-            )
-        ];
+    protected override getGlobalBoundsList(nodeBuffer: number): Rectangle[] {
+        const regions = super.getGlobalBoundsList(nodeBuffer);
 
         // We look for common Monaco widget classes.
         const widgetSelectors = '.monaco-menu-container, .monaco-menu, .context-view, .monaco-hover, .monaco-editor-hover, .suggest-widget';
@@ -654,16 +477,9 @@ export class EditorNode extends DOMContainer implements MaskProvider {
         return results;
     }
 
-    public get isInteracting(): boolean {
-        return this.isDragging || this.isResizing;
-    }
-
     public override destroy(options?: any) {
-        this.maskManager.unregisterProvider(this);
-        window.removeEventListener('pointermove', this.boundOnGlobalPointerMove);
-        window.removeEventListener('pointerup', this.boundOnGlobalPointerUp);
-
         super.destroy(options);
+        this.dirtyStateListener.dispose();
         if (this.monacoDiv && this.monacoDiv.parentNode) {
             this.monacoDiv.parentNode.removeChild(this.monacoDiv);
         }
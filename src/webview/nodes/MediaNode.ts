@@ -1 +1,169 @@
-export class MediaNode { }
+import { MessageClient } from '../core/MessageClient';
+import { MaskManager } from '../core/MaskManager';
+import { BaseNode, type NodeBounds } from './BaseNode';
+import { type MediaKind } from '../../shared/MediaConfig';
+import { escapeHtml } from '../../shared/HtmlUtils';
+
+/**
+ * Options for creating a MediaNode
+ */
+export interface MediaNodeOptions {
+    initialWidth?: number;
+    /**
+     * Initial height.  When omitted, the height is derived from the media's
+     * natural aspect ratio once it has loaded.
+     */
+    initialHeight?: number;
+}
+
+/**
+ * Displays an image, SVG or PDF from the workspace on the canvas.
+ *
+ * The media is loaded through a `getMediaResource` backend request, which
+ * returns a webview-safe URI for the file.  Images and SVGs resize with a
+ * locked aspect ratio; PDFs can be resized freely.
+ */
+export class MediaNode extends BaseNode {
+    public readonly nodeType = 'media';
+    private bodyDiv: HTMLDivElement;
+    private mediaElement: HTMLImageElement | HTMLIFrameElement | null = null;
+    private id: string;
+    private filePath: string;
+    private kind: MediaKind;
+    private messageClient: MessageClient;
+    /** Width / height of the media content, once known. `null` means resize freely. */
+    private aspectRatio: number | null = null;
+
+    constructor(id: string, file: string, kind: MediaKind, messageClient: MessageClient, maskManager: MaskManager, options: MediaNodeOptions = {}) {
+        super(maskManager, {
+            className: 'media-node', // IMPORTANT: This must match the class in the SCSS file
+            titleBarClassName: 'media-title-bar', // IMPORTANT: This must match the class in the SCSS file
+            width: options.initialWidth ?? 480,
+            height: options.initialHeight ?? 360,
+            minWidth: 120,
+            minHeight: 80
+        });
+        this.id = id;
+        this.filePath = file;
+        this.kind = kind;
+        this.messageClient = messageClient;
+
+        // Title Bar
+        const fileName = file.split('/').pop() || file;
+        this.titleBarDiv.innerHTML = `<div class="media-title-bar-icon icon" data-name="${escapeHtml(fileName)}"></div>
+        <div class="media-title-bar-title" title="${escapeHtml(file)}">${escapeHtml(fileName)}</div>
+        <div class="media-title-bar-buttons"></div>`;
+        const buttons = this.titleBarDiv.querySelector('.media-title-bar-buttons')!;
+        this.createTitleBarButton(buttons, 'media-title-bar-button media-title-bar-native-button', 'go-to-file', 'Open in Native Editor', () => {
+            this.messageClient.send('openInNativeEditor', { file: this.filePath });
+        });
+        this.createTitleBarButton(buttons, 'media-title-bar-button media-title-bar-connect-button', 'arrow-right', 'Connect To…', () => this.requestConnection());
+        this.createTitleBarButton(buttons, 'media-title-bar-button media-title-bar-close-button', 'close', 'Close', () => this.onClose());
+
+        // Media body
+        this.bodyDiv = document.createElement('div');
+        this.bodyDiv.className = 'media-body';
+        this.bodyDiv.innerHTML = '<div class="media-status">Loading…</div>';
+        this.wrapper.appendChild(this.bodyDiv);
+
+        this.applySize();
+        this.bringToFront();
+
+        this.loadMedia(options.initialHeight === undefined);
+    }
+
+    /**
+     * Resolves a webview URI for the file from the backend and displays it.
+     * @param fitToContent - Resize the node to the media's natural aspect ratio once loaded.
+     */
+    private async loadMedia(fitToContent: boolean) {
+        let src: string | null = null;
+        try {
+            src = await this.messageClient.sendRequest('getMediaResource', { file: this.filePath });
+        } catch (e) {
+            console.error(`MediaNode: Failed to resolve ${this.filePath}:`, e);
+        }
+
+        if (this.destroyed) {
+            return;
+        }
+        if (!src) {
+            this.showStatus('Unable to load file');
+            return;
+        }
+
+        if (this.kind === 'pdf') {
+            const frame = document.createElement('iframe');
+            frame.className = 'media-content';
+            frame.src = src;
+            this.mediaElement = frame;
+            this.bodyDiv.replaceChildren(frame);
+            return;
+        }
+
+        const img = document.createElement('img');
+        img.className = 'media-content';
+        img.draggable = false;
+        img.alt = this.filePath.split('/').pop() || this.filePath;
+        img.addEventListener('load', () => {
+            if (img.naturalWidth > 0 && img.naturalHeight > 0) {
+                this.aspectRatio = img.naturalWidth / img.naturalHeight;
+                if (fitToContent) {
+                    this.resize(this.width_, this.getBodyWidth() / this.aspectRatio + this.getChromeHeight());
+                }
+            }
+        });
+        img.addEventListener('error', () => this.showStatus('Unable to display file'));
+        img.src = src;
+        this.mediaElement = img;
+        this.bodyDiv.replaceChildren(img);
+    }
+
+    private showStatus(text: string) {
+        this.bodyDiv.innerHTML = `<div class="media-status">${escapeHtml(text)}</div>`;
+        this.mediaElement = null;
+    }
+
+    public getNodeId(): string {
+        return this.id;
+    }
+
+    public getId(): string {
+        return this.id;
+    }
+
+    public getFilePath(): string {
+        return this.filePath;
+    }
+
+    /** Vertical space taken by the title bar and borders. */
+    private getChromeHeight(): number {
+        return this.titleHeight + this.borderThickness * 2;
+    }
+
+    private getBodyWidth(): number {
+        return this.width_ - this.borderThickness * 2;
+    }
+
+    protected override constrainSize(width: number, height: number, direction: string, start: NodeBounds): { width: number; height: number } {
+        if (!this.aspectRatio) {
+            return { width, height };
+        }
+
+        // Aspect-locked: drive from whichever edge the user is dragging.
+        // For corners, follow the axis with the larger relative change.
+        const chrome = this.getChromeHeight();
+        const border = this.borderThickness * 2;
+        const horizontal = direction.includes('e') || direction.includes('w');
+        const vertical = direction.includes('n') || direction.includes('s');
+        const widthDriven = horizontal && (!vertical || Math.abs(width - start.width) / start.width >= Math.abs(height - start.height) / start.height);
+
+        return widthDriven
+            ? { width, height: (width - border) / this.aspectRatio + chrome }
+            : { width: (height - chrome) * this.aspectRatio + border, height };
+    }
+
+    protected layoutContent() {
+        this.bodyDiv.style.height = `${this.height_ - this.getChromeHeight()}px`;
+    }
+}
@@ -0,0 +1,72 @@
+import { MaskManager } from '../core/MaskManager';
+import { BaseNode } from './BaseNode';
+import { escapeHtml } from '../../shared/HtmlUtils';
+
+/**
+ * Stands in for an editor or media node whose file was deleted or could not
+ * be found when the canvas was restored.  Keeps the node's place (and its
+ * connections) until the user relocates the file or removes the node.
+ *
+ * Emits `relocate` in addition to the BaseNode events; the close button
+ * removes the node like any other.
+ */
+export class MissingFileNode extends BaseNode {
+    public readonly nodeType: 'editor' | 'media';
+    private bodyDiv: HTMLDivElement;
+    private id: string;
+    private filePath: string;
+
+    /**
+     * @param nodeType - Type of the node this stands in for.
+     * @param id - Id of that node: the file path for editors, the generated id for media.
+     */
+    constructor(nodeType: 'editor' | 'media', id: string, file: string, maskManager: MaskManager, width: number, height: number) {
+        super(maskManager, {
+            className: 'missing-file-node', // IMPORTANT: This must match the class in the SCSS file
+            titleBarClassName: 'missing-file-title-bar', // IMPORTANT: This must match the class in the SCSS file
+            width,
+            height,
+            minWidth: 160,
+            minHeight: 80
+        });
+        this.nodeType = nodeType;
+        this.id = id;
+        this.filePath = file;
+
+        // Title Bar
+        const fileName = file.split('/').pop() || file;
+        this.titleBarDiv.innerHTML = `<div class="missing-file-title-bar-icon"><i class="codicon codicon-warning"></i></div>
+        <div class="missing-file-title-bar-title" title="${escapeHtml(file)}">${escapeHtml(fileName)}</div>
+        <div class="missing-file-title-bar-buttons"></div>`;
+        const buttons = this.titleBarDiv.querySelector('.missing-file-title-bar-buttons')!;
+        this.createTitleBarButton(buttons, 'missing-file-title-bar-button missing-file-title-bar-close-button', 'close', 'Remove', () => this.onClose());
+
+        // Body
+        this.bodyDiv = document.createElement('div');
+        this.bodyDiv.className = 'missing-file-body';
+        this.bodyDiv.innerHTML = `<div class="missing-file-message">File not found</div>
+        <div class="missing-file-path">${escapeHtml(file)}</div>
+        <div class="missing-file-actions">
+            <button class="missing-file-action missing-file-relocate">Locate File…</button>
+            <button class="missing-file-action missing-file-remove">Remove</button>
+        </div>`;
+        this.bodyDiv.querySelector('.missing-file-relocate')!.addEventListener('click', () => this.emit('relocate'));
+        this.bodyDiv.querySelector('.missing-file-remove')!.addEventListener('click', () => this.onClose());
+        this.wrapper.appendChild(this.bodyDiv);
+
+        this.applySize();
+        this.bringToFront();
+    }
+
+    public getNodeId(): string {
+        return this.id;
+    }
+
+    public getFilePath(): string {
+        return this.filePath;
+    }
+
+    protected layoutContent() {
+        this.bodyDiv.style.height = `${this.height_ - this.titleHeight - this.borderThickness * 2}px`;
+    }
+}
@@ -1 +1,160 @@
-export class NoteNode { }
+import { MaskManager } from '../core/MaskManager';
+import { BaseNode } from './BaseNode';
+import { renderMarkdown } from '../utils/MarkdownUtils';
+
+/**
+ * Options for creating a NoteNode
+ */
+export interface NoteNodeOptions {
+    initialWidth?: number;
+    initialHeight?: number;
+    /** Open the note in edit mode right away (used for freshly created notes). */
+    startEditing?: boolean;
+}
+
+/**
+ * A free-text sticky note rendered as markdown.
+ * Click the preview (or the edit button) to edit the raw markdown; the note
+ * re-renders when the textarea loses focus.
+ *
+ * Emits `contentChanged` in addition to the BaseNode events.
+ */
+export class NoteNode extends BaseNode {
+    public readonly nodeType = 'note';
+    private previewDiv: HTMLDivElement;
+    private textarea: HTMLTextAreaElement;
+    private id: string;
+    private content: string;
+    private isEditing: boolean = false;
+    private contentChangeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(id: string, content: string, maskManager: MaskManager, options: NoteNodeOptions = {}) {
+        super(maskManager, {
+            className: 'note-node', // IMPORTANT: This must match the class in the SCSS file
+            titleBarClassName: 'note-title-bar', // IMPORTANT: This must match the class in the SCSS file
+            width: options.initialWidth ?? 320,
+            height: options.initialHeight ?? 240,
+            minWidth: 160,
+            minHeight: 80
+        });
+        this.id = id;
+        this.content = content;
+
+        // Title Bar
+        this.titleBarDiv.innerHTML = `<div class="note-title-bar-icon"><i class="codicon codicon-note"></i></div>
+        <div class="note-title-bar-title">Note</div>
+        <div class="note-title-bar-buttons"></div>`;
+        const buttons = this.titleBarDiv.querySelector('.note-title-bar-buttons')!;
+        this.createTitleBarButton(buttons, 'note-title-bar-button note-title-bar-edit-button', 'edit', 'Edit Note', () => this.setEditing(!this.isEditing));
+        this.createTitleBarButton(buttons, 'note-title-bar-button note-title-bar-connect-button', 'arrow-right', 'Connect To…', () => this.requestConnection());
+        this.createTitleBarButton(buttons, 'note-title-bar-button note-title-bar-close-button', 'close', 'Delete Note', () => this.onClose());
+
+        // Rendered markdown preview
+        this.previewDiv = document.createElement('div');
+        this.previewDiv.className = 'note-preview';
+        this.previewDiv.addEventListener('click', (e) => {
+            // Let links open normally instead of switching to edit mode
+            if ((e.target as HTMLElement).closest('a')) {
+                return;
+            }
+            this.setEditing(true);
+        });
+        this.wrapper.appendChild(this.previewDiv);
+
+        // Raw markdown editor
+        this.textarea = document.createElement('textarea');
+        this.textarea.className = 'note-editor';
+        this.textarea.spellcheck = true;
+        this.textarea.placeholder = 'Write markdown…';
+        this.textarea.value = content;
+        this.textarea.addEventListener('input', this.onInput.bind(this));
+        this.textarea.addEventListener('blur', () => this.setEditing(false));
+        this.textarea.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                this.textarea.blur();
+            }
+        });
+        this.wrapper.appendChild(this.textarea);
+
+        this.renderPreview();
+        this.applySize();
+        this.bringToFront();
+
+        if (options.startEditing) {
+            this.setEditing(true);
+        }
+    }
+
+    public getNodeId(): string {
+        return this.id;
+    }
+
+    public getId(): string {
+        return this.id;
+    }
+
+    public getContent(): string {
+        return this.content;
+    }
+
+    /** Replaces the markdown without emitting `contentChanged` (used by undo). */
+    public setContent(content: string) {
+        if (this.contentChangeTimeout) {
+            clearTimeout(this.contentChangeTimeout);
+            this.contentChangeTimeout = null;
+        }
+        this.content = content;
+        this.textarea.value = content;
+        this.renderPreview();
+    }
+
+    public setEditing(editing: boolean) {
+        if (this.isEditing === editing) {
+            return;
+        }
+        this.isEditing = editing;
+        this.wrapper.classList.toggle('editing', editing);
+
+        if (editing) {
+            this.bringToFront();
+            // Wait a frame so the textarea is displayed before focusing it
+            requestAnimationFrame(() => this.textarea.focus());
+        } else {
+            this.flushContentChange();
+            this.renderPreview();
+        }
+    }
+
+    private renderPreview() {
+        this.previewDiv.innerHTML = this.content.trim().length > 0
+            ? renderMarkdown(this.content)
+            : '<p class="note-placeholder">Click to add a note</p>';
+    }
+
+    private onInput() {
+        this.content = this.textarea.value;
+        if (this.contentChangeTimeout) {
+            clearTimeout(this.contentChangeTimeout);
+        }
+        this.contentChangeTimeout = setTimeout(() => this.flushContentChange(), 300); // 300ms debounce
+    }
+
+    private flushContentChange() {
+        if (this.contentChangeTimeout) {
+            clearTimeout(this.contentChangeTimeout);
+            this.contentChangeTimeout = null;
+            this.emit('contentChanged', this.content);
+        }
+    }
+
+    protected layoutContent() {
+        const bodyHeight = `${this.height_ - this.titleHeight - this.borderThickness * 2}px`;
+        this.previewDiv.style.height = bodyHeight;
+        this.textarea.style.height = bodyHeight;
+    }
+
+    public override destroy(options?: any) {
+        this.flushContentChange();
+        super.destroy(options);
+    }
+}
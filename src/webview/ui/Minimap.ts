@@ -1 +1,208 @@
-export class Minimap { }
+import { DOMContainer, Rectangle } from 'pixi.js';
+import { MaskManager, type MaskProvider } from '../core/MaskManager';
+import { Viewport } from '../canvas/Viewport';
+import { BaseNode, type NodeType } from '../nodes/BaseNode';
+import { EditorNode } from '../nodes/EditorNode';
+
+type Point = { x: number; y: number };
+
+/** Maps world coordinates onto the minimap canvas. */
+interface MinimapTransform {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+/**
+ * What the Minimap needs from the canvas it mirrors.
+ */
+export interface MinimapHost {
+    getNodes(): BaseNode[];
+    /** Pans so the given world position is at the center of the screen. */
+    centerOn(world: Point): void;
+    /** Persists the viewport once a minimap drag is over. */
+    commitViewport(): void;
+}
+
+const NODE_COLORS: Record<NodeType, string> = {
+    editor: '#3794ff',
+    note: '#cca700',
+    media: '#89d185'
+};
+const DIRTY_COLOR = '#f0883e';
+
+/**
+ * Overview of the whole canvas, pinned to the bottom-right corner.
+ *
+ * Draws every node's bounds (colored by node type, with unsaved editors
+ * highlighted) and the visible area from `Viewport.getBounds()`.  Clicking
+ * or dragging inside it centers the view on that spot.  Registers as a
+ * MaskProvider so the grid is cut out beneath it and presses on it don't
+ * pan the canvas.
+ */
+export class Minimap extends DOMContainer implements MaskProvider {
+    public readonly width_: number = 220;
+    public readonly height_: number = 150;
+    private readonly PADDING: number = 8;
+    private canvas!: HTMLCanvasElement;
+    private context!: CanvasRenderingContext2D;
+    private viewport: Viewport;
+    private maskManager: MaskManager;
+    private host: MinimapHost;
+    /** Transform frozen while dragging, so the map doesn't rescale under the pointer. */
+    private dragTransform: MinimapTransform | null = null;
+
+    constructor(viewport: Viewport, maskManager: MaskManager, host: MinimapHost) {
+        super();
+        this.viewport = viewport;
+        this.maskManager = maskManager;
+        this.host = host;
+        this.init();
+
+        this.maskManager.registerProvider(this);
+    }
+
+    public override destroy(options?: any) {
+        this.maskManager.unregisterProvider(this);
+        super.destroy(options);
+    }
+
+    public getMaskLocalBounds(): Rectangle {
+        return new Rectangle(0, 0, this.width_, this.height_);
+    }
+
+    public getMaskGlobalBounds(): Rectangle[] {
+        const tl = this.toGlobal({ x: 0, y: 0 });
+        return [new Rectangle(tl.x, tl.y, this.width_, this.height_)];
+    }
+
+    public getInteractionGlobalBounds(): Rectangle[] {
+        return this.getMaskGlobalBounds();
+    }
+
+    private init() {
+        this.zIndex = 1000;
+
+        this.element = document.createElement('div');
+        this.element.className = 'minimap-container';
+        this.element.style.width = `${this.width_}px`;
+        this.element.style.height = `${this.height_}px`;
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.className = 'minimap-canvas';
+        this.canvas.width = this.width_ * window.devicePixelRatio;
+        this.canvas.height = this.height_ * window.devicePixelRatio;
+        this.context = this.canvas.getContext('2d')!;
+        this.context.scale(window.devicePixelRatio, window.devicePixelRatio);
+        this.element.appendChild(this.canvas);
+
+        this.canvas.addEventListener('pointerdown', this.onPointerDown.bind(this));
+        this.canvas.addEventListener('pointermove', this.onPointerMove.bind(this));
+        this.canvas.addEventListener('pointerup', this.onPointerUp.bind(this));
+        this.canvas.addEventListener('lostpointercapture', this.onPointerUp.bind(this));
+
+        // Prevent Pixi drag/pan interaction when interacting with the minimap
+        this.element.addEventListener('pointerdown', (e) => e.stopPropagation());
+        this.element.addEventListener('wheel', (e) => e.stopPropagation());
+    }
+
+    /**
+     * Pins the minimap to the bottom-right corner of the screen.
+     */
+    public updatePosition(screenWidth: number, screenHeight: number) {
+        const margin = 16;
+        this.x = screenWidth - this.width_ - margin;
+        this.y = screenHeight - this.height_ - margin;
+    }
+
+    /**
+     * Fits the nodes and the visible area into the minimap.
+     */
+    private computeTransform(nodes: BaseNode[]): MinimapTransform {
+        const view = this.viewport.getBounds();
+        let left = view.left;
+        let top = view.top;
+        let right = view.right;
+        let bottom = view.bottom;
+        for (const node of nodes) {
+            left = Math.min(left, node.x);
+            top = Math.min(top, node.y);
+            right = Math.max(right, node.x + node.width);
+            bottom = Math.max(bottom, node.y + node.height);
+        }
+
+        const innerWidth = this.width_ - this.PADDING * 2;
+        const innerHeight = this.height_ - this.PADDING * 2;
+        const scale = Math.min(innerWidth / (right - left || 1), innerHeight / (bottom - top || 1));
+
+        // Center the content inside the minimap
+        return {
+            scale,
+            offsetX: this.PADDING + (innerWidth - (right - left) * scale) / 2 - left * scale,
+            offsetY: this.PADDING + (innerHeight - (bottom - top) * scale) / 2 - top * scale
+        };
+    }
+
+    /**
+     * Redraws the minimap.  Cheap enough to run every frame.
+     */
+    public update() {
+        const nodes = this.host.getNodes();
+        const t = this.dragTransform ?? this.computeTransform(nodes);
+        const ctx = this.context;
+        ctx.clearRect(0, 0, this.width_, this.height_);
+
+        for (const node of nodes) {
+            ctx.fillStyle = node instanceof EditorNode && node.isDirty() ? DIRTY_COLOR : NODE_COLORS[node.nodeType];
+            ctx.globalAlpha = node.isSelected ? 1 : 0.7;
+            ctx.fillRect(
+                node.x * t.scale + t.offsetX,
+                node.y * t.scale + t.offsetY,
+                Math.max(node.width * t.scale, 2),
+                Math.max(node.height * t.scale, 2)
+            );
+        }
+        ctx.globalAlpha = 1;
+
+        const view = this.viewport.getBounds();
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(
+            view.left * t.scale + t.offsetX + 0.5,
+            view.top * t.scale + t.offsetY + 0.5,
+            view.width * t.scale,
+            view.height * t.scale
+        );
+    }
+
+    private toWorld(e: PointerEvent, t: MinimapTransform): Point {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left - t.offsetX) / t.scale,
+            y: (e.clientY - rect.top - t.offsetY) / t.scale
+        };
+    }
+
+    private onPointerDown(e: PointerEvent) {
+        if (e.button !== 0) {
+            return;
+        }
+        this.dragTransform = this.computeTransform(this.host.getNodes());
+        this.canvas.setPointerCapture(e.pointerId);
+        this.host.centerOn(this.toWorld(e, this.dragTransform));
+    }
+
+    private onPointerMove(e: PointerEvent) {
+        if (this.dragTransform) {
+            this.host.centerOn(this.toWorld(e, this.dragTransform));
+        }
+    }
+
+    private onPointerUp() {
+        if (!this.dragTransform) {
+            return;
+        }
+        this.dragTransform = null;
+        this.host.commitViewport();
+    }
+}
@@ -1,11 +1,25 @@
 import { Container, DOMContainer, Rectangle } from 'pixi.js';
 import { MessageClient } from '../core/MessageClient';
 import { MaskManager, MaskProvider } from '../core/MaskManager';
+import { type AlignMode } from '../features/SelectionManager';
+
+/** Align buttons shown while several nodes are selected. */
+const ALIGN_ACTIONS: { mode: AlignMode; icon: string; title: string }[] = [
+    { mode: 'left', icon: 'layout-sidebar-left', title: 'Align Left Edges' },
+    { mode: 'center', icon: 'layout-centered', title: 'Align Horizontal Centers' },
+    { mode: 'right', icon: 'layout-sidebar-right', title: 'Align Right Edges' },
+    { mode: 'top', icon: 'layout-menubar', title: 'Align Top Edges' },
+    { mode: 'middle', icon: 'layout-panel-center', title: 'Align Vertical Centers' },
+    { mode: 'bottom', icon: 'layout-panel', title: 'Align Bottom Edges' }
+];
 
 export class Toolbar extends DOMContainer implements MaskProvider {
     private messageClient: MessageClient;
     private input!: HTMLInputElement;
     private resultsList!: HTMLUListElement;
+    private selectionBar!: HTMLDivElement;
+    private selectionLabel!: HTMLSpanElement;
+    private alignButtons: HTMLButtonElement[] = [];
     public readonly width_: number = 500;
     private maskManager: MaskManager;
 
@@ -61,10 +75,31 @@ export class Toolbar extends DOMContainer implements MaskProvider {
         this.input = document.createElement('input');
         this.input.placeholder = 'Search files...';
 
+        // Removes the dashed connections left behind by Go to Definition / Find References
+        const clearTrailButton = this.createButton('clear-all', 'Clear Navigation Trail', () => this.emit('clearNavigationTrail'));
+
+        const saveAllButton = this.createButton('save-all', 'Save All (Ctrl+Alt+S)', () => this.emit('saveAll'));
+
         inputContainer.appendChild(searchIcon);
         inputContainer.appendChild(this.input);
+        inputContainer.appendChild(saveAllButton);
+        inputContainer.appendChild(clearTrailButton);
         this.element.appendChild(inputContainer);
 
+        // Selection actions, shown while nodes are selected
+        this.selectionBar = document.createElement('div');
+        this.selectionBar.className = 'toolbar-selection-bar';
+        this.selectionLabel = document.createElement('span');
+        this.selectionLabel.className = 'toolbar-selection-label';
+        this.selectionBar.appendChild(this.selectionLabel);
+        for (const action of ALIGN_ACTIONS) {
+            const button = this.createButton(action.icon, action.title, () => this.emit('align', action.mode));
+            this.alignButtons.push(button);
+            this.selectionBar.appendChild(button);
+        }
+        this.selectionBar.appendChild(this.createButton('trash', 'Delete Selected Nodes', () => this.emit('deleteSelection')));
+        this.element.appendChild(this.selectionBar);
+
         // Results List
         this.resultsList = document.createElement('ul');
         this.resultsList.className = 'toolbar-results-list';
@@ -79,6 +114,28 @@ export class Toolbar extends DOMContainer implements MaskProvider {
         this.element.addEventListener('wheel', (e) => e.stopPropagation());
     }
 
+    private createButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'toolbar-button';
+        button.title = title;
+        button.innerHTML = `<i class="codicon codicon-${icon}"></i>`;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    /**
+     * Shows the selection actions while nodes are selected.  Aligning needs
+     * at least two nodes.
+     */
+    public setSelectionCount(count: number) {
+        this.selectionBar.style.display = count > 0 ? 'flex' : 'none';
+        this.selectionLabel.textContent = `${count} selected`;
+        for (const button of this.alignButtons) {
+            button.disabled = count < 2;
+        }
+        this.maskManager.update();
+    }
+
     private async onInput(e: Event) {
         const query = (e.target as HTMLInputElement).value;
         if (query.length < 1) {
@@ -0,0 +1,10 @@
+/**
+ * Returns true when a keyboard event target is a text input (including
+ * Monaco's hidden textarea), where canvas shortcuts such as Delete must not fire.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) {
+        return false;
+    }
+    return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+}
@@ -0,0 +1,133 @@
+import { escapeHtml } from '../../shared/HtmlUtils';
+
+/**
+ * Renders inline markdown (code spans, links, bold, italic, strikethrough).
+ * The input is escaped first, so raw HTML in notes is never interpreted.
+ */
+function renderInline(text: string): string {
+    // Pull code spans out first so their content is not formatted.
+    const codeSpans: string[] = [];
+    let html = escapeHtml(text).replace(/`([^`]+)`/g, (_match, code: string) => {
+        codeSpans.push(`<code>${code}</code>`);
+        return `\u0000${codeSpans.length - 1}\u0000`;
+    });
+
+    html = html
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_match, label: string, href: string) => {
+            // Only allow web and mail links; anything else is rendered as plain text.
+            return /^(https?:|mailto:)/i.test(href)
+                ? `<a href="${href}" target="_blank" rel="noopener">${label}</a>`
+                : label;
+        })
+        .replace(/(\*\*|__)(.+?)\1/g, '<strong>$2</strong>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>')
+        .replace(/\b_(.+?)_\b/g, '<em>$1</em>')
+        .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+    return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Renders a small, safe subset of markdown to HTML for display in notes.
+ *
+ * Supported: ATX headings, paragraphs, fenced code blocks, block quotes,
+ * ordered/unordered lists, task list items, horizontal rules and inline
+ * formatting.  Raw HTML is always escaped.
+ * @param source - The markdown source.
+ * @returns The rendered HTML string.
+ */
+export function renderMarkdown(source: string): string {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+    let paragraph: string[] = [];
+    let listType: 'ul' | 'ol' | null = null;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            out.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+            paragraph = [];
+        }
+    };
+    const closeList = () => {
+        if (listType) {
+            out.push(`</${listType}>`);
+            listType = null;
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Fenced code block
+        const fence = line.match(/^\s*```\s*([\w-]*)\s*$/);
+        if (fence) {
+            flushParagraph();
+            closeList();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+                code.push(lines[i]);
+                i++;
+            }
+            const langClass = fence[1] ? ` class="language-${escapeHtml(fence[1])}"` : '';
+            out.push(`<pre><code${langClass}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        if (line.trim() === '') {
+            flushParagraph();
+            closeList();
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            flushParagraph();
+            closeList();
+            const level = heading[1].length;
+            out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flushParagraph();
+            closeList();
+            out.push('<hr>');
+            continue;
+        }
+
+        const quote = line.match(/^>\s?(.*)$/);
+        if (quote) {
+            flushParagraph();
+            closeList();
+            out.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+            continue;
+        }
+
+        const item = line.match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item) {
+            flushParagraph();
+            const type = /\d/.test(item[1]) ? 'ol' : 'ul';
+            if (listType !== type) {
+                closeList();
+                out.push(`<${type}>`);
+                listType = type;
+            }
+            const task = item[2].match(/^\[( |x|X)\]\s+(.*)$/);
+            if (task) {
+                const checked = task[1] !== ' ' ? ' checked' : '';
+                out.push(`<li class="task-item"><input type="checkbox" disabled${checked}> ${renderInline(task[2])}</li>`);
+            } else {
+                out.push(`<li>${renderInline(item[2])}</li>`);
+            }
+            continue;
+        }
+
+        closeList();
+        paragraph.push(line.trim());
+    }
+
+    flushParagraph();
+    closeList();
+    return out.join('\n');
+}
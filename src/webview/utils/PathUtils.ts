@@ -0,0 +1,19 @@
+/**
+ * Returns true when `filePath` is `folder` itself or lies inside it.
+ * Accepts both `/` and `\` separators, since paths come from the extension
+ * host's platform.
+ */
+export function isSameOrInside(filePath: string, folder: string): boolean {
+    return filePath === folder || filePath.startsWith(folder + '/') || filePath.startsWith(folder + '\\');
+}
+
+/**
+ * Applies a file or folder rename to a path.
+ * @returns The new path, or `null` if the rename does not affect `filePath`.
+ */
+export function applyRename(filePath: string, oldPath: string, newPath: string): string | null {
+    if (!isSameOrInside(filePath, oldPath)) {
+        return null;
+    }
+    return newPath + filePath.slice(oldPath.length);
+}